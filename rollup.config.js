@@ -2,18 +2,28 @@ import minify from 'rollup-plugin-babel-minify';
 
 const { main: MAIN_DEST_FILE, module: MODULE_DEST_FILE } = require('./package.json');
 
-export default {
-	input: 'lib/index.js',
-	output: [
-		{ file: MAIN_DEST_FILE, format: 'umd', exports: 'named' },
-		{ file: MODULE_DEST_FILE, format: 'es' }
-	],
-	name: 'whynot',
-	sourcemap: true,
-	plugins: [
-		minify({
-			comments: false,
-			sourceMap: true
-		})
-	]
-};
+function createConfig(input, mainDestFile, moduleDestFile, name) {
+	return {
+		input,
+		output: [
+			{ file: mainDestFile, format: 'umd', exports: 'named' },
+			{ file: moduleDestFile, format: 'es' }
+		],
+		name,
+		sourcemap: true,
+		plugins: [
+			minify({
+				comments: false,
+				sourceMap: true
+			})
+		]
+	};
+}
+
+export default [
+	createConfig('lib/index.js', MAIN_DEST_FILE, MODULE_DEST_FILE, 'whynot'),
+	// Front-ends, also available separately as whynot/regex and whynot/grammar. Each bundle includes
+	// its own copy of the core classes, as this version of rollup can not share chunks between them.
+	createConfig('lib/regex.js', 'dist/regex.js', 'dist/regex.mjs', 'whynotRegex'),
+	createConfig('lib/grammar.js', 'dist/grammar.js', 'dist/grammar.mjs', 'whynotGrammar')
+];
@@ -1,9 +1,23 @@
-import { Instruction, FailFunc, TestFunc, RecordFunc } from './Instruction';
+import {
+	Instruction,
+	ChildrenFunc,
+	FailFunc,
+	TestFunc,
+	SequenceTestFunc,
+	RecordFunc
+} from './Instruction';
+import Label from './Label';
 
 function addInstruction<I, O>(
 	program: Instruction<I, O>[],
 	op: string,
-	func: FailFunc<O> | TestFunc<I, O> | RecordFunc<O> | null,
+	func:
+		| FailFunc<O>
+		| TestFunc<I, O>
+		| SequenceTestFunc<I, O>
+		| RecordFunc<O>
+		| ChildrenFunc<I, O>
+		| null,
 	data: any
 ): Instruction<I, O> {
 	const instruction = { op, func, data };
@@ -11,16 +25,76 @@ function addInstruction<I, O>(
 	return instruction;
 }
 
+function isPositiveInteger(value: number): boolean {
+	return value >= 1 && value % 1 === 0;
+}
+
 function defaultRecorder(data: any, _inputIndex: number) {
 	return data;
 }
 
+function describeLabel(label: Label): string {
+	return label.name === null ? 'Unnamed label' : 'Label "' + label.name + '"';
+}
+
+/**
+ * Jump target which has yet to be filled in with the program counter of its label
+ */
+type Fixup<I, O> = { label: Label; instruction: Instruction<I, O>; index: number };
+
 /**
  * The Assembler is used to generate a whynot program by appending instructions.
  */
 export default class Assembler<I, O = void> {
 	program: Instruction<I, O>[] = [];
 
+	private _labels: Label[] = [];
+	private _fixups: Fixup<I, O>[] = [];
+
+	/**
+	 * Creates a new Label, which can be used as a jump target before it is bound to a location in
+	 * the program.
+	 *
+	 * @param name Optional name for the label, used in error messages
+	 *
+	 * @return The new label
+	 */
+	label(name?: string): Label {
+		const label = new Label(name === undefined ? null : name);
+		this._labels.push(label);
+		return label;
+	}
+
+	/**
+	 * Binds the given Label to the current end of the program, i.e., the location of the next
+	 * instruction to be added. Any jumps to the label are updated to target this location.
+	 *
+	 * @param label The label to bind, which should have been created by this Assembler
+	 *
+	 * @return The program counter the label was bound to
+	 */
+	bind(label: Label): number {
+		if (this._labels.indexOf(label) === -1) {
+			throw new Error(describeLabel(label) + ' was not created by this assembler');
+		}
+		if (label.pc !== null) {
+			throw new Error(describeLabel(label) + ' is already bound to ' + label.pc);
+		}
+		const pc = this.program.length;
+		label.pc = pc;
+
+		// Resolve pending jumps to the label
+		this._fixups = this._fixups.filter(fixup => {
+			if (fixup.label !== label) {
+				return true;
+			}
+			fixup.instruction.data[fixup.index] = pc;
+			return false;
+		});
+
+		return pc;
+	}
+
 	/**
 	 * The 'test' instruction validates and consumes an input item.
 	 *
@@ -37,16 +111,140 @@ export default class Assembler<I, O = void> {
 		return addInstruction(this.program, 'test', matcher, data === undefined ? null : data);
 	}
 
+	/**
+	 * The 'testSequence' instruction validates and consumes several input items at once, allowing
+	 * tokens that span multiple input items to be matched by a single instruction.
+	 *
+	 * If the matcher returns true, execution continues in the Generation following the last of the
+	 * items, otherwise execution of the current Thread ends. The Thread also ends if the input ends
+	 * before the required number of items is available.
+	 *
+	 * @param length  The number of input items to consume, should be a positive integer
+	 * @param matcher Callback to invoke for the input items, should return true to accept, false
+	 *                to reject.
+	 * @param data    Data to be passed to the matcher callback. Defaults to null.
+	 *
+	 * @return The new instruction
+	 */
+	testSequence(length: number, matcher: SequenceTestFunc<I, O>, data?: any): Instruction<I, O> {
+		if (!isPositiveInteger(length)) {
+			throw new Error('The length of a test sequence should be a positive integer');
+		}
+		const instruction = addInstruction(
+			this.program,
+			'testSequence',
+			matcher,
+			data === undefined ? null : data
+		);
+		instruction.length = length;
+		return instruction;
+	}
+
+	/**
+	 * The 'skip' instruction consumes a number of input items without validating them. Execution
+	 * continues in the Generation following the last of the items, or ends if the input ends
+	 * before that.
+	 *
+	 * @param count The number of input items to consume, should be a positive integer. Defaults to
+	 *              1.
+	 *
+	 * @return The new instruction
+	 */
+	skip(count: number = 1): Instruction<I, O> {
+		if (!isPositiveInteger(count)) {
+			throw new Error('The number of items to skip should be a positive integer');
+		}
+		return addInstruction(this.program, 'skip', null, count);
+	}
+
+	/**
+	 * The 'lookahead' instruction validates the current input item without consuming it.
+	 *
+	 * If the matcher returns true, execution continues at the next instruction in the same
+	 * Generation, otherwise execution of the current Thread ends. At the end of the input, the
+	 * Thread ends as it would for a test instruction.
+	 *
+	 * @param matcher Callback to invoke for the input, should return true to accept, false to
+	 *                reject.
+	 * @param data    Data to be passed to the matcher callback. Defaults to null.
+	 *
+	 * @return The new instruction
+	 */
+	lookahead(matcher: TestFunc<I, O>, data?: any): Instruction<I, O> {
+		return addInstruction(this.program, 'lookahead', matcher, data === undefined ? null : data);
+	}
+
+	/**
+	 * The 'negativeLookahead' instruction validates the current input item without consuming it,
+	 * continuing only if the item does not match.
+	 *
+	 * If the matcher returns false, or if there is no further input, execution continues at the
+	 * next instruction in the same Generation. Otherwise execution of the current Thread ends.
+	 *
+	 * @param matcher Callback to invoke for the input, should return true for input that ends the
+	 *                Thread.
+	 * @param data    Data to be passed to the matcher callback. Defaults to null.
+	 *
+	 * @return The new instruction
+	 */
+	negativeLookahead(matcher: TestFunc<I, O>, data?: any): Instruction<I, O> {
+		return addInstruction(
+			this.program,
+			'negativeLookahead',
+			matcher,
+			data === undefined ? null : data
+		);
+	}
+
+	/**
+	 * The 'call' instruction runs a sub-program over a sequence of input items obtained from the
+	 * current input item, such as the children of an element, and consumes the current item. This
+	 * allows matching nested structures, and sub-programs may call themselves recursively.
+	 *
+	 * If the sub-program accepts the sequence, execution continues in the next Generation and the
+	 * accepting Traces of the sub-program are added to the subTraces of the current Thread's Trace.
+	 * Otherwise, or if getChildren returns null or undefined, execution of the current Thread ends.
+	 *
+	 * @param subProgramId The id of the sub-program to run, as used in the VM's subPrograms option
+	 * @param getChildren  Callback returning the input for the sub-program, in any of the forms
+	 *                     accepted by VM#execute. Invoked with the current input item, the
+	 *                     sub-program id and the options.
+	 *
+	 * @return The new instruction
+	 */
+	call(subProgramId: string, getChildren: ChildrenFunc<I, O>): Instruction<I, O> {
+		return addInstruction(this.program, 'call', getChildren, subProgramId);
+	}
+
 	/**
 	 * The 'jump' instruction continues execution in the current Generation at any number of other
 	 * locations. A new Thread will be spawned for each target.
 	 *
-	 * @param targets Program counters at which to continue execution
+	 * @param targets Program counters or Labels at which to continue execution. Labels that have
+	 *                not been bound yet are filled in when they are bound.
 	 *
 	 * @return The new instruction
 	 */
-	jump(targets: number[]): Instruction<I, O> {
-		return addInstruction(this.program, 'jump', null, targets);
+	jump(targets: (number | Label)[]): Instruction<I, O> {
+		const pcs: number[] = [];
+		const instruction = addInstruction(this.program, 'jump', null, pcs);
+		targets.forEach((target, index) => {
+			if (typeof target === 'number') {
+				pcs.push(target);
+				return;
+			}
+			if (this._labels.indexOf(target) === -1) {
+				throw new Error(describeLabel(target) + ' was not created by this assembler');
+			}
+			if (target.pc !== null) {
+				pcs.push(target.pc);
+				return;
+			}
+			// Use a placeholder until the label is bound
+			pcs.push(-1);
+			this._fixups.push({ label: target, instruction, index });
+		});
+		return instruction;
 	}
 
 	/**
@@ -89,11 +287,27 @@ export default class Assembler<I, O = void> {
 	 * The 'fail' instruction ends the current Thread.
 	 *
 	 * @param predicate Optional callback to make the fail conditional, if this returns true the
-	 *                  thread will end, otherwise it will continue.
+	 *                  thread will end, otherwise it will continue. The callback receives the
+	 *                  options and the current input position.
 	 *
 	 * @return The new instruction
 	 */
 	fail(predicate?: FailFunc<O>): Instruction<I, O> {
 		return addInstruction<I, O>(this.program, 'fail', predicate || null, null);
 	}
+
+	/**
+	 * Completes the program, verifying that all labels have been bound.
+	 *
+	 * @return The finished program
+	 */
+	finalize(): Instruction<I, O>[] {
+		const unboundLabels = this._labels.filter(label => label.pc === null);
+		if (unboundLabels.length) {
+			throw new Error(
+				'Labels are never bound: ' + unboundLabels.map(describeLabel).join(', ')
+			);
+		}
+		return this.program;
+	}
 }
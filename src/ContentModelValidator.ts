@@ -0,0 +1,65 @@
+import { compileContentModelVM, ContentModel, ElementName, MissingChild } from './contentModel';
+import VM from './VM';
+
+/**
+ * The outcome of validating the children of an element against a content model
+ */
+export interface ChildrenValidationResult {
+	isValid: boolean;
+	/**
+	 * The first child that is not allowed at its position, even if any required children were
+	 * added before it, or null if there is no such child
+	 */
+	unexpectedChild: { index: number; name: ElementName } | null;
+	/**
+	 * The smallest set of required children that should be added to make the children valid.
+	 * Empty if the children are valid or contain an unexpected child.
+	 */
+	missingChildren: MissingChild[];
+}
+
+/**
+ * Validates the children of elements against a DTD-style content model, explaining why any
+ * invalid children do not match.
+ */
+export default class ContentModelValidator {
+	private _vm: VM<ElementName>;
+	private _explainingVM: VM<ElementName>;
+
+	/**
+	 * @param model The content model to validate against
+	 */
+	constructor(model: ContentModel) {
+		this._vm = compileContentModelVM(model);
+		this._explainingVM = compileContentModelVM(model, { recordMissing: true });
+	}
+
+	/**
+	 * Validates the given children.
+	 *
+	 * @param children The names of the children of an element, using PCDATA for text children
+	 *
+	 * @return The outcome of the validation
+	 */
+	validate(children: ElementName[]): ChildrenValidationResult {
+		if (this._vm.execute(children).success) {
+			return { isValid: true, unexpectedChild: null, missingChildren: [] };
+		}
+
+		// Find out whether the children can be made valid by adding any missing children
+		const result = this._explainingVM.execute(children);
+		if (!result.success) {
+			// The last processed child is not allowed, regardless of any missing children
+			const index = result.furthestInputIndex;
+			return {
+				isValid: false,
+				unexpectedChild: { index, name: children[index] },
+				missingChildren: []
+			};
+		}
+
+		// Each missing child adds to the badness, so the best path requires the fewest additions
+		const bestPath = result.getBestPaths(1)[0];
+		return { isValid: false, unexpectedChild: null, missingChildren: bestPath.records };
+	}
+}
@@ -0,0 +1,275 @@
+import { Input } from './input';
+import { Instruction } from './Instruction';
+import Result, { ExecutionLimit, PendingTest } from './Result';
+import Runner from './Runner';
+import Scheduler, { SchedulerSnapshot } from './Scheduler';
+import Thread from './Thread';
+import Trace from './Trace';
+
+/**
+ * A Thread reaching an accept instruction
+ */
+export type Acceptance = { trace: Trace; badness: number; inputIndex: number };
+
+/**
+ * An object signalling that an execution should be aborted, such as an AbortSignal
+ */
+export type AbortSignalLike = {
+	aborted: boolean;
+	addEventListener?: (type: 'abort', listener: () => void) => void;
+	removeEventListener?: (type: 'abort', listener: () => void) => void;
+};
+
+/**
+ * Options controlling a single execution of a program. These can be used to bound the resources
+ * used by the execution. When a limit is exceeded, execution stops and the Result reports the
+ * limit that was hit.
+ */
+export interface ExecutionOptions {
+	/**
+	 * Maximum number of Threads to run in a single Generation
+	 */
+	maxThreads?: number;
+	/**
+	 * Maximum number of input items to process
+	 */
+	maxInputLength?: number;
+	/**
+	 * Maximum number of instructions to run in total
+	 */
+	maxSteps?: number;
+	/**
+	 * Maximum number of milliseconds to spend running the program, not including any time spent
+	 * waiting for input. This is only checked periodically. For VM#executeAsync, time spent waiting
+	 * for input is included, so the execution also times out if the input stops producing items.
+	 */
+	timeout?: number;
+	/**
+	 * Execution stops once the aborted property of this object becomes true, as is the case for an
+	 * AbortSignal once its controller aborts. This is only checked periodically. While
+	 * VM#executeAsync waits for input, it listens for the signal's abort event if the signal
+	 * supports event listeners, and checks the aborted property every few milliseconds otherwise.
+	 */
+	signal?: AbortSignalLike;
+	/**
+	 * Only determine whether the input is accepted. Record instructions are skipped, and execution
+	 * stops as soon as the first Thread accepts the input. The Result then contains a single
+	 * accepting Trace without any records.
+	 *
+	 * For VM#execute and VM#executeAsync, the program then runs without creating Traces, as for
+	 * VM#recognize, only keeping the path of the accepting Thread. The Result does not contain
+	 * failing or pending Traces, and badness and the VM's pruning options are ignored, so the path
+	 * is not necessarily the one with the lowest badness. Sessions still create Traces.
+	 */
+	firstMatch?: boolean;
+}
+
+/**
+ * Runs the sub-program with the given id over the given input, as required by call instructions
+ */
+export type CallSubProgramFunc<I, O> = (
+	subProgramId: string,
+	input: Input<I>,
+	options: O | undefined
+) => Result;
+
+function callUnknownSubProgram(subProgramId: string): Result {
+	throw new Error('Unknown sub-program "' + subProgramId + '"');
+}
+
+/**
+ * The state of an Execution, as captured by Execution#snapshot
+ */
+export type ExecutionSnapshot = {
+	acceptances: Acceptance[];
+	failingTraces: Trace[];
+	pendingTraces: Trace[];
+	pendingTests: PendingTest[];
+	expectedTests: PendingTest[];
+	inputIndex: number;
+	steps: number;
+	elapsedTime: number;
+	limitExceeded: ExecutionLimit | null;
+	bufferedInput: any[];
+	scheduler: SchedulerSnapshot;
+};
+
+/**
+ * The state of running a program on a single input sequence, keeping Traces for all Threads.
+ * Input is processed one item at a time, allowing the caller to decide how input is obtained.
+ */
+export default class Execution<I, O> extends Runner<I, O, Thread> {
+	public acceptances: Acceptance[] = [];
+	public failingTraces: Trace[] = [];
+	public pendingTraces: Trace[] = [];
+
+	private _scheduler: Scheduler;
+	private _isFirstMatch: boolean;
+	private _callSubProgramFunc: CallSubProgramFunc<I, O>;
+
+	/**
+	 * @param program          The program to run
+	 * @param scheduler        The Scheduler to use, which is reset before use
+	 * @param options          Optional object passed to all instruction callbacks
+	 * @param isSearch         Whether to start matching at every input position and to accept
+	 *                         regardless of whether all input has been consumed
+	 * @param executionOptions Limits for the execution
+	 * @param callSubProgram   Runs sub-programs for call instructions, if the program has any
+	 */
+	constructor(
+		program: Instruction<I, O>[],
+		scheduler: Scheduler,
+		options: O | undefined,
+		isSearch: boolean,
+		executionOptions: ExecutionOptions = {},
+		callSubProgram: CallSubProgramFunc<I, O> = callUnknownSubProgram
+	) {
+		super(program, options, isSearch, !!executionOptions.firstMatch, executionOptions);
+		this._scheduler = scheduler;
+		this._isFirstMatch = !!executionOptions.firstMatch;
+		this._callSubProgramFunc = callSubProgram;
+
+		// Reset the scheduler and add the initial thread
+		scheduler.reset();
+		scheduler.addThread(0, 0);
+	}
+
+	protected _hasScheduledThreads(): boolean {
+		return this._scheduler.hasScheduledThreads();
+	}
+
+	protected _getNextThread(): Thread | null {
+		return this._scheduler.getNextThread();
+	}
+
+	protected _getProgramCounter(thread: Thread): number {
+		return thread.pc;
+	}
+
+	protected _continueThread(
+		thread: Thread,
+		generationOffset: number,
+		pc: number,
+		addedBadness: number
+	) {
+		this._scheduler.addThread(generationOffset, pc, thread, thread.badness + addedBadness);
+	}
+
+	protected _addCost(thread: Thread, cost: number) {
+		thread.trace.cost += cost;
+	}
+
+	protected _addRecord(thread: Thread, record: any) {
+		thread.trace.records.push(record);
+	}
+
+	protected _callSubProgram(thread: Thread, subProgramId: string, input: Input<I>): boolean {
+		const subResult = this._callSubProgramFunc(subProgramId, input, this._options);
+		if (!subResult.success) {
+			return false;
+		}
+		// Nest the sub-program's traces
+		thread.trace.subTraces.push.apply(thread.trace.subTraces, subResult.acceptingTraces);
+		return true;
+	}
+
+	protected _acceptThread(thread: Thread) {
+		this.acceptances.push({
+			trace: thread.trace,
+			badness: thread.badness,
+			inputIndex: this.inputIndex
+		});
+	}
+
+	protected _failThread(thread: Thread, rejectingLookahead: { pc: number; data: any } | null) {
+		if (rejectingLookahead !== null) {
+			thread.trace.rejectingLookahead = rejectingLookahead;
+		}
+		this.failingTraces.push(thread.trace);
+	}
+
+	protected _pendThread(thread: Thread) {
+		this.failingTraces.push(thread.trace);
+		this.pendingTraces.push(thread.trace);
+	}
+
+	protected _hasFinished(): boolean {
+		return this._isFirstMatch && this.acceptances.length > 0;
+	}
+
+	protected _startGeneration() {
+		// We only record failing traces for the last active Generation
+		this.failingTraces.length = 0;
+	}
+
+	protected _nextGeneration(isEndOfInput: boolean) {
+		// End current Generation and continue with the next. This compacts the Traces in the old
+		// Generation.
+		this._scheduler.nextGeneration();
+
+		if (this._isSearch && !isEndOfInput) {
+			// Start matching at the next input position
+			this._scheduler.addThread(0, 0);
+		}
+	}
+
+	/**
+	 * Captures the state of the execution, which can later be restored to continue from the
+	 * current input position. Should not be called while running a step.
+	 *
+	 * @return The snapshot
+	 */
+	snapshot(): ExecutionSnapshot {
+		return {
+			acceptances: this.acceptances.slice(),
+			failingTraces: this.failingTraces.slice(),
+			pendingTraces: this.pendingTraces.slice(),
+			pendingTests: this.pendingTests.slice(),
+			expectedTests: this.expectedTests.slice(),
+			inputIndex: this.inputIndex,
+			steps: this._steps,
+			elapsedTime: this._elapsedTime,
+			limitExceeded: this.limitExceeded,
+			bufferedInput: this._bufferedInput.slice(),
+			scheduler: this._scheduler.snapshot()
+		};
+	}
+
+	/**
+	 * Replaces the state of the execution with the given snapshot.
+	 *
+	 * @param snapshot The snapshot to restore, created using snapshot
+	 */
+	restore(snapshot: ExecutionSnapshot) {
+		this.acceptances = snapshot.acceptances.slice();
+		this.failingTraces = snapshot.failingTraces.slice();
+		this.pendingTraces = snapshot.pendingTraces.slice();
+		this.pendingTests = snapshot.pendingTests.slice();
+		this.expectedTests = snapshot.expectedTests.slice();
+		this.inputIndex = snapshot.inputIndex;
+		this._steps = snapshot.steps;
+		this._elapsedTime = snapshot.elapsedTime;
+		this.limitExceeded = snapshot.limitExceeded;
+		this._bufferedInput = snapshot.bufferedInput.slice();
+		this._scheduler.restore(snapshot.scheduler);
+	}
+
+	/**
+	 * Creates the Result of the execution so far. The Result is not affected by continuing the
+	 * execution.
+	 *
+	 * @return The Result
+	 */
+	getResult(): Result {
+		return new Result(
+			this.acceptances.map(acceptance => acceptance.trace),
+			this.failingTraces.slice(),
+			this.pendingTraces.slice(),
+			this.pendingTests.slice(),
+			Math.max(this.inputIndex, 0),
+			this.expectedTests.slice(),
+			this.limitExceeded,
+			this._scheduler.getPrunedThreadCount() > 0
+		);
+	}
+}
@@ -1,4 +1,5 @@
 import Thread from './Thread';
+import Trace from './Trace';
 
 function createThread(
 	oldThreads: Thread[],
@@ -38,27 +39,65 @@ function findInsertionIndex(threadList: Thread[], nextThreadIndex: number, badne
 	return low;
 }
 
+/**
+ * Limits on the Threads kept in a Generation. Threads exceeding these limits are dropped.
+ */
+export interface PruningOptions {
+	/**
+	 * Maximum number of Threads scheduled for a Generation before it starts running, i.e., the
+	 * number of Threads continuing from previous Generations. When exceeded, the Thread with the
+	 * highest badness is dropped.
+	 */
+	beamWidth?: number;
+	/**
+	 * Maximum badness for a Thread, Threads with a higher badness are dropped
+	 */
+	maxBadness?: number;
+}
+
 /**
  * Represents the threads scheduled to operate on a single input item
  */
 export default class Generation {
+	/**
+	 * The number of Threads dropped due to pruning since the Generation was last reset
+	 */
+	public prunedThreadCount: number = 0;
+
 	private _threadList: Thread[] = [];
 	private _oldThreads: Thread[];
 	private _nextThread: number = 0;
+	private _isRunning: boolean = false;
 	private _programLength: number;
-	private _threadsByProgramCounter: (Thread | null)[];
+	/**
+	 * The Threads added for each instruction, one for each attempt to match. Arrays are created
+	 * when first needed.
+	 */
+	private _threadsByProgramCounter: (Thread[] | undefined)[];
 	private _generationNumber: number;
+	private _beamWidth: number;
+	private _maxBadness: number;
 
 	/**
 	 * @param programLength    The length of the program being run
 	 * @param oldThreadList    Array used for recycling Thread objects
 	 * @param generationNumber The index of generation
+	 * @param pruningOptions   Limits on the Threads kept in the Generation
 	 */
-	constructor(programLength: number, oldThreadList: Thread[], generationNumber: number) {
+	constructor(
+		programLength: number,
+		oldThreadList: Thread[],
+		generationNumber: number,
+		pruningOptions: PruningOptions = {}
+	) {
 		this._oldThreads = oldThreadList;
 		this._programLength = programLength;
 		this._threadsByProgramCounter = new Array(programLength);
 		this._generationNumber = generationNumber;
+		this._beamWidth =
+			pruningOptions.beamWidth === undefined ? Infinity : pruningOptions.beamWidth;
+		this._maxBadness =
+			pruningOptions.maxBadness === undefined ? Infinity : pruningOptions.maxBadness;
 	}
 
 	/**
@@ -69,19 +108,18 @@ export default class Generation {
 	 */
 	reset(generationNumber: number) {
 		// Compact and recycle threads
-		let i, l;
-		for (i = 0, l = this._threadList.length; i < l; ++i) {
+		for (let i = 0, l = this._threadList.length; i < l; ++i) {
 			const thread = this._threadList[i];
 			thread.compact();
 			this._oldThreads.push(thread);
+			// Reset threads by program counter lookup
+			(this._threadsByProgramCounter[thread.pc] as Thread[]).length = 0;
 		}
 		this._threadList.length = 0;
 		// Reset thread counter
 		this._nextThread = 0;
-		// Reset threads by program counter lookup
-		for (i = 0, l = this._programLength; i < l; ++i) {
-			this._threadsByProgramCounter[i] = null;
-		}
+		this._isRunning = false;
+		this.prunedThreadCount = 0;
 
 		this._generationNumber = generationNumber;
 	}
@@ -93,6 +131,14 @@ export default class Generation {
 	 * the previous threads. All traces are preserved, but only a single thread continues execution.
 	 * This works, because instructions never depend on a thread's history.
 	 *
+	 * When searching, each input position starts a new attempt to match. Threads of different
+	 * attempts are never joined, so the paths of each attempt can be told apart, and are not lost
+	 * when joining them would create a cycle in the Trace of another attempt.
+	 *
+	 * Threads with a badness above maxBadness are dropped. If the Generation has not started running
+	 * and would exceed its beam width, the Thread with the highest badness is dropped, which may be
+	 * the new Thread.
+	 *
 	 * @param pc           Program counter for the new Thread
 	 * @param parentThread Thread which spawned the new Thread
 	 * @param badness      Increasing badness decreases thread priority
@@ -105,8 +151,17 @@ export default class Generation {
 			return null;
 		}
 
+		// Drop threads that have become too bad
+		if (badness > this._maxBadness) {
+			++this.prunedThreadCount;
+			return null;
+		}
+
 		// If a thread for pc already exists in this generation, combine traces and return
-		const existingThreadForProgramCounter = this._threadsByProgramCounter[pc];
+		const startGeneration = parentThread
+			? parentThread.startGeneration
+			: this._generationNumber;
+		const existingThreadForProgramCounter = this._findThread(pc, startGeneration);
 		if (existingThreadForProgramCounter) {
 			// Detect repetition in the same generation, which would cause cyclic traces
 			if (!parentThread || !parentThread.trace.contains(pc, this._generationNumber)) {
@@ -117,6 +172,21 @@ export default class Generation {
 			return null;
 		}
 
+		if (!this._isRunning && this._threadList.length >= this._beamWidth) {
+			// Make room by dropping the worst thread, unless the new thread is worse still
+			const worstThread = this._threadList[this._threadList.length - 1];
+			++this.prunedThreadCount;
+			if (worstThread.badness <= badness) {
+				return null;
+			}
+			this._threadList.pop();
+			const threadsForProgramCounter = this._threadsByProgramCounter[
+				worstThread.pc
+			] as Thread[];
+			threadsForProgramCounter.splice(threadsForProgramCounter.indexOf(worstThread), 1);
+			this._oldThreads.push(worstThread);
+		}
+
 		const thread = createThread(
 			this._oldThreads,
 			pc,
@@ -126,13 +196,84 @@ export default class Generation {
 			this._generationNumber
 		);
 
+		this._scheduleThread(thread);
+
+		return thread;
+	}
+
+	/**
+	 * Adds a Thread continuing the given Trace, which should have been created for the same
+	 * program counter in the same generation. This is used to restore Threads from a snapshot.
+	 *
+	 * Assumes no thread has been added for pc yet.
+	 *
+	 * @param pc              Program counter for the new Thread
+	 * @param trace           The Trace to continue
+	 * @param badness         Increasing badness decreases thread priority
+	 * @param startGeneration The generation in which the Thread's attempt to match started
+	 *
+	 * @return The Thread that was added
+	 */
+	restoreThread(pc: number, trace: Trace, badness: number, startGeneration: number): Thread {
+		const thread = createThread(
+			this._oldThreads,
+			pc,
+			this._programLength,
+			undefined,
+			badness,
+			this._generationNumber
+		);
+		thread.trace = trace;
+		trace.badness = badness;
+		thread.startGeneration = startGeneration;
+
+		this._scheduleThread(thread);
+
+		return thread;
+	}
+
+	private _findThread(pc: number, startGeneration: number): Thread | null {
+		const threadsForProgramCounter = this._threadsByProgramCounter[pc];
+		if (threadsForProgramCounter === undefined) {
+			return null;
+		}
+		for (let i = 0, l = threadsForProgramCounter.length; i < l; ++i) {
+			if (threadsForProgramCounter[i].startGeneration === startGeneration) {
+				return threadsForProgramCounter[i];
+			}
+		}
+		return null;
+	}
+
+	private _scheduleThread(thread: Thread) {
 		// Schedule thread according to badness
-		const index = findInsertionIndex(this._threadList, this._nextThread, badness);
+		const index = findInsertionIndex(this._threadList, this._nextThread, thread.badness);
 		this._threadList.splice(index, 0, thread);
 
-		this._threadsByProgramCounter[pc] = thread;
+		const threadsForProgramCounter = this._threadsByProgramCounter[thread.pc];
+		if (threadsForProgramCounter === undefined) {
+			this._threadsByProgramCounter[thread.pc] = [thread];
+		} else {
+			threadsForProgramCounter.push(thread);
+		}
+	}
 
-		return thread;
+	/**
+	 * Returns the Threads in this Generation that have not run yet.
+	 *
+	 * @return The Threads, in the order in which they will run
+	 */
+	getPendingThreads(): Thread[] {
+		return this._threadList.slice(this._nextThread);
+	}
+
+	/**
+	 * Returns whether there are Threads left to run for this generation.
+	 *
+	 * @return Whether a subsequent call to getNextThread will return a Thread
+	 */
+	hasNextThread(): boolean {
+		return this._nextThread < this._threadList.length;
 	}
 
 	/**
@@ -141,6 +282,7 @@ export default class Generation {
 	 * @return The Thread to run, or null if there are no threads left.
 	 */
 	getNextThread(): Thread | null {
+		this._isRunning = true;
 		if (this._nextThread >= this._threadList.length) {
 			return null;
 		}
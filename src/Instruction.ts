@@ -1,12 +1,74 @@
-export type FailFunc<O = void> = (options?: O) => boolean;
+import { Input } from './input';
+
+export type FailFunc<O = void> = (options: O | undefined, inputIndex: number) => boolean;
 export type TestFunc<I, O = void> = (inputItem: I, data: any, options?: O) => boolean;
+export type SequenceTestFunc<I, O = void> = (inputItems: I[], data: any, options?: O) => boolean;
 export type RecordFunc<O = void> = (data: any, inputIndex: number, options?: O) => any | null;
+export type ChildrenFunc<I, O = void> = (
+	inputItem: I,
+	data: any,
+	options?: O
+) => Input<I> | null | undefined;
 
 /**
  * Represents a single instruction in a whynot program.
  */
 export interface Instruction<I, O = void> {
 	op: string;
-	func?: FailFunc<O> | TestFunc<I, O> | RecordFunc<O> | null;
+	func?:
+		| FailFunc<O>
+		| TestFunc<I, O>
+		| SequenceTestFunc<I, O>
+		| RecordFunc<O>
+		| ChildrenFunc<I, O>
+		| null;
 	data?: any;
+	/**
+	 * The number of input items consumed by a testSequence instruction
+	 */
+	length?: number;
+}
+
+/**
+ * Returns the number of input items consumed by the given instruction.
+ *
+ * @param instruction The instruction
+ *
+ * @return The number of input items, 0 for instructions that do not consume input
+ */
+export function getConsumedLength<I, O>(instruction: Instruction<I, O>): number {
+	switch (instruction.op) {
+		case 'test':
+		case 'call':
+			return 1;
+
+		case 'testSequence':
+			return instruction.length as number;
+
+		case 'skip':
+			return instruction.data as number;
+
+		default:
+			return 0;
+	}
+}
+
+/**
+ * Returns the largest number of input items consumed by any single instruction in the program.
+ * Running the program requires access to this many input items at a time, and scheduling Threads
+ * as many Generations ahead.
+ *
+ * @param program The program
+ *
+ * @return The number of input items, at least 1
+ */
+export function getLookahead<I, O>(program: Instruction<I, O>[]): number {
+	let lookahead = 1;
+	for (let pc = 0, l = program.length; pc < l; ++pc) {
+		const length = getConsumedLength(program[pc]);
+		if (length > lookahead) {
+			lookahead = length;
+		}
+	}
+	return lookahead;
 }
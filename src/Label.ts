@@ -0,0 +1,15 @@
+/**
+ * A Label represents a named location in a program that is being assembled. Labels can be used as
+ * jump targets before their location is known, they are resolved once they are bound.
+ */
+export default class Label {
+	/**
+	 * The program counter the label is bound to, or null if it has not been bound yet
+	 */
+	public pc: number | null = null;
+
+	/**
+	 * @param name Optional name for the label, used in error messages
+	 */
+	constructor(public name: string | null = null) {}
+}
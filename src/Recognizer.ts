@@ -0,0 +1,208 @@
+import { ExecutionOptions } from './Execution';
+import { Input } from './input';
+import { getLookahead, Instruction } from './Instruction';
+import Result from './Result';
+import Runner from './Runner';
+import Trace from './Trace';
+
+/**
+ * Determines whether the sub-program with the given id accepts the given input, as required by
+ * call instructions
+ */
+export type RecognizeSubProgramFunc<I, O> = (
+	subProgramId: string,
+	input: Input<I>,
+	options: O | undefined
+) => boolean;
+
+/**
+ * The path leading up to a Thread, kept to reconstruct the path of the accepting Thread. Each
+ * Thread only keeps the first path that reached it.
+ */
+type PathNode = { pc: number; generation: number; previous: PathNode | null };
+
+function createTraceForPath<I, O>(program: Instruction<I, O>[], path: PathNode): Trace {
+	const nodes: PathNode[] = [];
+	for (let node: PathNode | null = path; node !== null; node = node.previous) {
+		nodes.push(node);
+	}
+	let trace: Trace | null = null;
+	let badness = 0;
+	for (let i = nodes.length - 1; i >= 0; --i) {
+		const { pc, generation } = nodes[i];
+		trace = new Trace(pc, program.length, trace, generation);
+		if (program[pc].op === 'bad') {
+			trace.cost = program[pc].data as number;
+			badness += trace.cost;
+		}
+	}
+	const acceptingTrace = trace as Trace;
+	acceptingTrace.compact();
+	acceptingTrace.badness = badness;
+	return acceptingTrace;
+}
+
+/**
+ * Determines whether a program accepts an input sequence, processing the input one item at a time
+ * like an Execution does. As no Traces are created while running, this is considerably cheaper
+ * than an Execution, while accepting the same inputs. Record instructions are skipped, and
+ * badness is ignored.
+ *
+ * Optionally, the path of the first Thread to accept is kept, which is then turned into a Trace.
+ * Threads are represented by their index in the current generation.
+ */
+export default class Recognizer<I, O> extends Runner<I, O, number> {
+	public isAccepted: boolean = false;
+
+	private _recognizeSubProgram: RecognizeSubProgramFunc<I, O>;
+	private _acceptingPath: PathNode | null = null;
+
+	// Program counters of the threads in the current and scheduled generations, lookups to
+	// determine whether a thread has already been scheduled for an instruction, and the paths
+	// leading to each thread if paths are kept. These are used as ring buffers, indexed by
+	// generation number.
+	private _threadsByGeneration: number[][] = [];
+	private _isScheduledByGeneration: Uint8Array[] = [];
+	private _pathsByGeneration: (PathNode | null)[][] | null;
+	private _generationNumber: number = 0;
+	private _nextThread: number = 0;
+
+	/**
+	 * @param program             The program to run
+	 * @param options             Optional object passed to all instruction callbacks
+	 * @param executionOptions    Limits for the execution, the firstMatch option is ignored
+	 * @param recognizeSubProgram Runs sub-programs for call instructions, if the program has any
+	 * @param isPathKept          Whether to keep the path of the accepting Thread
+	 */
+	constructor(
+		program: Instruction<I, O>[],
+		options: O | undefined,
+		executionOptions: ExecutionOptions,
+		recognizeSubProgram: RecognizeSubProgramFunc<I, O>,
+		isPathKept: boolean
+	) {
+		super(program, options, false, true, executionOptions);
+		this._recognizeSubProgram = recognizeSubProgram;
+
+		const numberOfGenerations = getLookahead(program) + 1;
+		this._pathsByGeneration = isPathKept ? [] : null;
+		for (let i = 0; i < numberOfGenerations; ++i) {
+			this._threadsByGeneration.push([]);
+			this._isScheduledByGeneration.push(new Uint8Array(program.length));
+			if (this._pathsByGeneration !== null) {
+				this._pathsByGeneration.push([]);
+			}
+		}
+
+		this._schedule(0, 0, null);
+	}
+
+	private _schedule(pc: number, generationOffset: number, previous: PathNode | null) {
+		const generation = this._generationNumber + generationOffset;
+		const target = generation % this._threadsByGeneration.length;
+		const isScheduled = this._isScheduledByGeneration[target];
+		// Only run each in-program instruction once per generation, which also breaks cycles
+		if (pc >= this._program.length || isScheduled[pc]) {
+			return;
+		}
+		isScheduled[pc] = 1;
+		this._threadsByGeneration[target].push(pc);
+		if (this._pathsByGeneration !== null) {
+			this._pathsByGeneration[target].push({ pc, generation, previous });
+		}
+	}
+
+	private _getCurrentGeneration(): number {
+		return this._generationNumber % this._threadsByGeneration.length;
+	}
+
+	private _getPath(thread: number): PathNode | null {
+		return this._pathsByGeneration === null
+			? null
+			: this._pathsByGeneration[this._getCurrentGeneration()][thread];
+	}
+
+	protected _hasScheduledThreads(): boolean {
+		return !this.isAccepted && this._threadsByGeneration.some(threads => threads.length > 0);
+	}
+
+	protected _getNextThread(): number | null {
+		const threads = this._threadsByGeneration[this._getCurrentGeneration()];
+		return this._nextThread < threads.length ? this._nextThread++ : null;
+	}
+
+	protected _getProgramCounter(thread: number): number {
+		return this._threadsByGeneration[this._getCurrentGeneration()][thread];
+	}
+
+	protected _continueThread(thread: number, generationOffset: number, pc: number) {
+		this._schedule(pc, generationOffset, this._getPath(thread));
+	}
+
+	protected _addCost() {
+		// Badness is ignored, the cost of the accepting path is determined afterwards
+	}
+
+	protected _addRecord() {
+		// Records are skipped
+	}
+
+	protected _callSubProgram(_thread: number, subProgramId: string, input: Input<I>): boolean {
+		return this._recognizeSubProgram(subProgramId, input, this._options);
+	}
+
+	protected _acceptThread(thread: number) {
+		this.isAccepted = true;
+		this._acceptingPath = this._getPath(thread);
+	}
+
+	protected _failThread() {
+		// Failing threads are not kept
+	}
+
+	protected _pendThread() {
+		// Pending threads are not kept, though their tests are
+	}
+
+	protected _hasFinished(): boolean {
+		return this.isAccepted;
+	}
+
+	protected _nextGeneration() {
+		// Switch to the next generation, recycling the current one
+		const current = this._getCurrentGeneration();
+		this._threadsByGeneration[current].length = 0;
+		this._isScheduledByGeneration[current].fill(0);
+		if (this._pathsByGeneration !== null) {
+			this._pathsByGeneration[current].length = 0;
+		}
+		++this._generationNumber;
+		this._nextThread = 0;
+	}
+
+	/**
+	 * Creates a Result describing whether the input was accepted. If the path of the accepting
+	 * Thread was kept, the Result contains it as its only accepting Trace. The Result does not
+	 * contain any failing or pending Traces, though it does list the pending and expected tests.
+	 *
+	 * @return The Result
+	 */
+	getResult(): Result {
+		const acceptingTraces: Trace[] = [];
+		if (this.isAccepted && this._acceptingPath !== null) {
+			acceptingTraces.push(createTraceForPath(this._program, this._acceptingPath));
+		}
+		const result = new Result(
+			acceptingTraces,
+			[],
+			[],
+			this.pendingTests.slice(),
+			Math.max(this.inputIndex, 0),
+			this.expectedTests.slice(),
+			this.limitExceeded
+		);
+		result.success = this.isAccepted;
+		result.isViablePrefix = this.isAccepted || this.pendingTests.length > 0;
+		return result;
+	}
+}
@@ -1,4 +1,24 @@
-import Trace from './Trace';
+import Trace, { TracePath } from './Trace';
+
+/**
+ * A test instruction that a Thread was waiting on, either because it ran out of input or because
+ * the test was attempted on the last input item that was processed
+ */
+export interface PendingTest {
+	/**
+	 * Program counter of the test instruction
+	 */
+	pc: number;
+	/**
+	 * The data for the test instruction, as passed to its callback
+	 */
+	data: any;
+}
+
+/**
+ * The limits which can end an execution early, as set using ExecutionOptions
+ */
+export type ExecutionLimit = 'maxThreads' | 'maxInputLength' | 'maxSteps' | 'timeout' | 'aborted';
 
 /**
  * The result of running a VM on an input sequence.
@@ -6,7 +26,74 @@ import Trace from './Trace';
 export default class Result {
 	public success: boolean;
 
-	constructor(public acceptingTraces: Trace[], public failingTraces: Trace[]) {
+	/**
+	 * Whether the input is accepted, or could be accepted when more input is added to it. This is
+	 * the case when any Thread was still alive at the end of the input.
+	 */
+	public isViablePrefix: boolean;
+
+	/**
+	 * @param acceptingTraces    Traces that lead to acceptance of the input
+	 * @param failingTraces      Traces that lead to failure in the last Generation
+	 * @param pendingTraces      Traces of Threads that reached a test instruction at the end of the
+	 *                           input, i.e., Threads that could continue if more input were added
+	 * @param pendingTests       The test instructions those Threads are waiting on
+	 * @param furthestInputIndex The index of the last input item processed, i.e., the index at
+	 *                           which the last Threads ended. Equal to the length of the input if
+	 *                           all input was processed.
+	 * @param expectedTests      The test instructions attempted by Threads at furthestInputIndex,
+	 *                           which would have allowed execution to continue if they had
+	 *                           succeeded
+	 * @param limitExceeded      The limit which caused the execution to stop before processing all
+	 *                           input, or null if no limit was exceeded. The other properties of
+	 *                           the Result then only reflect the part of the input processed.
+	 * @param isPruned           Whether any Threads were dropped due to the VM's beam width or
+	 *                           maximum badness, in which case the Result may be missing ways to
+	 *                           accept or continue the input
+	 */
+	constructor(
+		public acceptingTraces: Trace[],
+		public failingTraces: Trace[],
+		public pendingTraces: Trace[] = [],
+		public pendingTests: PendingTest[] = [],
+		public furthestInputIndex: number = 0,
+		public expectedTests: PendingTest[] = [],
+		public limitExceeded: ExecutionLimit | null = null,
+		public isPruned: boolean = false
+	) {
 		this.success = !!acceptingTraces.length;
+		this.isViablePrefix = this.success || !!pendingTraces.length;
+	}
+
+	/**
+	 * Returns the accepting paths with the lowest total badness, i.e., the total cost of the bad
+	 * instructions along each path.
+	 *
+	 * @param maxPaths The maximum number of paths to return
+	 *
+	 * @return Up to maxPaths paths, ordered by increasing badness
+	 */
+	getBestPaths(maxPaths: number): TracePath[] {
+		const candidates: TracePath[] = [];
+		this.acceptingTraces.forEach(trace => {
+			candidates.push.apply(candidates, trace.getBestPaths(maxPaths));
+		});
+		// Sort by badness, preserving the order of the accepting traces for equal badness
+		return candidates
+			.map((path, index) => ({ path, index }))
+			.sort((a, b) => a.path.badness - b.path.badness || a.index - b.index)
+			.slice(0, maxPaths)
+			.map(candidate => candidate.path);
+	}
+
+	/**
+	 * Returns the accepting path with the lowest total badness, i.e., the total cost of the bad
+	 * instructions along the path.
+	 *
+	 * @return The best path, or null if the input was not accepted
+	 */
+	getBestPath(): TracePath | null {
+		const bestPaths = this.getBestPaths(1);
+		return bestPaths.length ? bestPaths[0] : null;
 	}
 }
@@ -0,0 +1,440 @@
+import { ExecutionOptions } from './Execution';
+import {
+	getConsumedLength,
+	getLookahead,
+	Instruction,
+	ChildrenFunc,
+	FailFunc,
+	RecordFunc,
+	SequenceTestFunc,
+	TestFunc
+} from './Instruction';
+import { ExecutionLimit, PendingTest } from './Result';
+
+/**
+ * The number of instructions to run between checks of the timeout and abort signal
+ */
+const INTERRUPT_CHECK_INTERVAL = 1024;
+
+/**
+ * Runs a program on input provided one item at a time. For programs containing instructions that
+ * consume several input items at once, input is buffered until enough items are available to run
+ * those instructions. The Runner runs the instructions and enforces the limits of the execution,
+ * while subclasses determine how Threads of type T are represented and scheduled.
+ */
+export default abstract class Runner<I, O, T> {
+	public pendingTests: PendingTest[] = [];
+	public expectedTests: PendingTest[] = [];
+	public inputIndex: number = -1;
+	public limitExceeded: ExecutionLimit | null = null;
+
+	protected _program: Instruction<I, O>[];
+	protected _options: O | undefined;
+	protected _executionOptions: ExecutionOptions;
+	/**
+	 * Whether accept instructions accept regardless of whether all input has been consumed
+	 */
+	protected _isSearch: boolean;
+	/**
+	 * Whether to skip running record instructions, as records are not needed
+	 */
+	protected _skipsRecords: boolean;
+	protected _steps: number = 0;
+	protected _elapsedTime: number = 0;
+	/**
+	 * Input items that have been provided but not yet processed, starting at the item for the
+	 * current Generation
+	 */
+	protected _bufferedInput: I[] = [];
+
+	private _lookahead: number;
+
+	/**
+	 * @param program          The program to run
+	 * @param options          Optional object passed to all instruction callbacks
+	 * @param isSearch         Whether to accept regardless of whether all input has been consumed
+	 * @param skipsRecords     Whether to skip running record instructions
+	 * @param executionOptions Limits for the execution
+	 */
+	constructor(
+		program: Instruction<I, O>[],
+		options: O | undefined,
+		isSearch: boolean,
+		skipsRecords: boolean,
+		executionOptions: ExecutionOptions
+	) {
+		this._program = program;
+		this._options = options;
+		this._isSearch = isSearch;
+		this._skipsRecords = skipsRecords;
+		this._executionOptions = executionOptions;
+		this._lookahead = getLookahead(program);
+	}
+
+	/**
+	 * Returns whether any Threads are left to process the next input item and no limit has been
+	 * exceeded. If not, reading further input is pointless.
+	 *
+	 * @return Whether the execution can continue
+	 */
+	isRunning(): boolean {
+		return this.limitExceeded === null && this._hasScheduledThreads();
+	}
+
+	/**
+	 * Stops the execution, reporting the given limit as exceeded. This is used for limits exceeded
+	 * while waiting for input. Has no effect if a limit has already been exceeded.
+	 *
+	 * @param limit The limit that was exceeded
+	 */
+	interrupt(limit: ExecutionLimit) {
+		if (this.limitExceeded === null) {
+			this.limitExceeded = limit;
+		}
+	}
+
+	/**
+	 * Provides the next input item. Once enough input is available, this runs all Threads in the
+	 * current Generation on the item, then switches to the next Generation. When the input ends,
+	 * the Generations for any buffered items are run before the final one.
+	 *
+	 * @param isEndOfInput Whether the input has ended, in which case inputItem is ignored
+	 * @param inputItem    The input item to process
+	 */
+	step(isEndOfInput: boolean, inputItem?: I) {
+		if (!isEndOfInput) {
+			this._bufferedInput.push(inputItem as I);
+			if (this._bufferedInput.length >= this._lookahead) {
+				this._runGeneration(false);
+			}
+			return;
+		}
+
+		while (this._bufferedInput.length && this.isRunning()) {
+			this._runGeneration(false);
+		}
+		if (this.isRunning()) {
+			this._runGeneration(true);
+		}
+	}
+
+	/**
+	 * Returns whether any Threads are scheduled in the current or future Generations
+	 */
+	protected abstract _hasScheduledThreads(): boolean;
+
+	/**
+	 * Returns the next Thread to run in the current Generation, or null if there are none left
+	 */
+	protected abstract _getNextThread(): T | null;
+
+	/**
+	 * Returns the program counter of the instruction the given Thread should run
+	 */
+	protected abstract _getProgramCounter(thread: T): number;
+
+	/**
+	 * Continues the given Thread at pc, generationOffset Generations after the current one,
+	 * increasing its badness by addedBadness
+	 */
+	protected abstract _continueThread(
+		thread: T,
+		generationOffset: number,
+		pc: number,
+		addedBadness: number
+	): void;
+
+	/**
+	 * Adds the cost of a bad instruction run by the given Thread
+	 */
+	protected abstract _addCost(thread: T, cost: number): void;
+
+	/**
+	 * Adds a record made by the given Thread
+	 */
+	protected abstract _addRecord(thread: T, record: any): void;
+
+	/**
+	 * Runs the sub-program with the given id over the given input for a call instruction run by
+	 * the given Thread, returning whether the sub-program accepts the input
+	 */
+	protected abstract _callSubProgram(thread: T, subProgramId: string, input: any): boolean;
+
+	/**
+	 * Ends the given Thread, as it reached an accept instruction while accepting
+	 */
+	protected abstract _acceptThread(thread: T): void;
+
+	/**
+	 * Ends the given Thread, as it failed. If it was rejected by a lookahead or negativeLookahead
+	 * instruction, that instruction is given.
+	 */
+	protected abstract _failThread(
+		thread: T,
+		rejectingLookahead: { pc: number; data: any } | null
+	): void;
+
+	/**
+	 * Ends the given Thread, as the input ended while it could have continued given more input
+	 */
+	protected abstract _pendThread(thread: T): void;
+
+	/**
+	 * Returns whether no more Threads need to run, as a Thread has accepted and only the first
+	 * match is needed
+	 */
+	protected abstract _hasFinished(): boolean;
+
+	/**
+	 * Ends the current Generation and switches to the next one
+	 *
+	 * @param isEndOfInput Whether the Generation was the final one
+	 */
+	protected abstract _nextGeneration(isEndOfInput: boolean): void;
+
+	/**
+	 * Called before running the Threads of a Generation
+	 */
+	protected _startGeneration() {}
+
+	private _checkInterrupts(stepStartTime: number): boolean {
+		const { timeout, signal } = this._executionOptions;
+		if (signal && signal.aborted) {
+			this.limitExceeded = 'aborted';
+			return true;
+		}
+		if (timeout !== undefined && this._elapsedTime + Date.now() - stepStartTime > timeout) {
+			this.limitExceeded = 'timeout';
+			return true;
+		}
+		return false;
+	}
+
+	private _endThreadAtEndOfInput(thread: T, pc: number, instruction: Instruction<I, O>) {
+		this._pendThread(thread);
+		// The thread could have continued given more input
+		this.pendingTests.push({ pc, data: instruction.data });
+		this.expectedTests.push({ pc, data: instruction.data });
+	}
+
+	private _runGeneration(isEndOfInput: boolean) {
+		const {
+			maxThreads = Infinity,
+			maxInputLength = Infinity,
+			maxSteps = Infinity
+		} = this._executionOptions;
+		const stepStartTime = Date.now();
+
+		if (this._checkInterrupts(stepStartTime)) {
+			return;
+		}
+		if (!isEndOfInput && this.inputIndex + 1 >= maxInputLength) {
+			this.limitExceeded = 'maxInputLength';
+			return;
+		}
+
+		// We only record expected tests for the last active Generation
+		this.expectedTests.length = 0;
+		this._startGeneration();
+
+		const inputIndex = ++this.inputIndex;
+		let threadsInGeneration = 0;
+		let thread = this._getNextThread();
+		while (thread !== null) {
+			// Stop if running this thread would exceed any limit
+			++this._steps;
+			if (++threadsInGeneration > maxThreads) {
+				this.limitExceeded = 'maxThreads';
+				break;
+			}
+			if (this._steps > maxSteps) {
+				this.limitExceeded = 'maxSteps';
+				break;
+			}
+			if (
+				this._steps % INTERRUPT_CHECK_INTERVAL === 0 &&
+				this._checkInterrupts(stepStartTime)
+			) {
+				break;
+			}
+
+			this._runInstruction(thread, inputIndex, isEndOfInput);
+
+			if (this._hasFinished()) {
+				// No need to look any further
+				break;
+			}
+
+			// Next thread
+			thread = this._getNextThread();
+		}
+
+		this._elapsedTime += Date.now() - stepStartTime;
+		if (this.limitExceeded !== null) {
+			// Leave the remaining threads, execution can not continue
+			return;
+		}
+
+		this._nextGeneration(isEndOfInput);
+		this._bufferedInput.shift();
+	}
+
+	private _runInstruction(thread: T, inputIndex: number, isEndOfInput: boolean) {
+		// Items available from the current input position, empty at the end of the input
+		const inputItems = this._bufferedInput;
+		const inputItem = inputItems[0];
+		const options = this._options;
+		const pc = this._getProgramCounter(thread);
+		const instruction = this._program[pc];
+
+		switch (instruction.op) {
+			case 'accept':
+				// Only accept if we reached the end of the input, unless searching
+				if (this._isSearch || isEndOfInput) {
+					this._acceptThread(thread);
+				} else {
+					this._failThread(thread, null);
+				}
+				break;
+
+			case 'fail': {
+				// Is the failure conditional?
+				const func = instruction.func as FailFunc<O>;
+				const isFailingCondition = !func || func(options, inputIndex);
+				if (isFailingCondition) {
+					// Branch is forbidden, end the thread
+					this._failThread(thread, null);
+					break;
+				}
+				// Condition failed, continue at next instruction
+				this._continueThread(thread, 0, pc + 1, 0);
+				break;
+			}
+
+			case 'bad':
+				// Remember the cost in the trace to allow finding the best path later
+				this._addCost(thread, instruction.data as number);
+				// Continue at next pc with added badness
+				this._continueThread(thread, 0, pc + 1, instruction.data as number);
+				break;
+
+			case 'test': {
+				// Fail if out of input
+				if (isEndOfInput) {
+					this._endThreadAtEndOfInput(thread, pc, instruction);
+					break;
+				}
+				this.expectedTests.push({ pc, data: instruction.data });
+				// Fail if input does not match
+				const func = instruction.func as TestFunc<I, O>;
+				const isInputAccepted = func(inputItem, instruction.data, options);
+				if (!isInputAccepted) {
+					this._failThread(thread, null);
+					break;
+				}
+				// Continue in next generation, preserving badness
+				this._continueThread(thread, 1, pc + 1, 0);
+				break;
+			}
+
+			case 'call': {
+				// Fail if out of input
+				if (isEndOfInput) {
+					this._endThreadAtEndOfInput(thread, pc, instruction);
+					break;
+				}
+				this.expectedTests.push({ pc, data: instruction.data });
+				// Run the sub-program over the input derived from the current item
+				const func = instruction.func as ChildrenFunc<I, O>;
+				const children = func(inputItem, instruction.data, options);
+				if (
+					children === null ||
+					children === undefined ||
+					!this._callSubProgram(thread, instruction.data, children)
+				) {
+					this._failThread(thread, null);
+					break;
+				}
+				// Continue in next generation
+				this._continueThread(thread, 1, pc + 1, 0);
+				break;
+			}
+
+			case 'lookahead':
+			case 'negativeLookahead': {
+				const isNegative = instruction.op === 'negativeLookahead';
+				if (isEndOfInput && !isNegative) {
+					// The thread could continue if more input were added
+					this._endThreadAtEndOfInput(thread, pc, instruction);
+					break;
+				}
+				if (!isNegative) {
+					this.expectedTests.push({ pc, data: instruction.data });
+				}
+				// Peek at the input, continuing in the current generation if the result is as
+				// expected
+				const func = instruction.func as TestFunc<I, O>;
+				const isMatch = !isEndOfInput && func(inputItem, instruction.data, options);
+				if (isMatch !== isNegative) {
+					this._continueThread(thread, 0, pc + 1, 0);
+					break;
+				}
+				this._failThread(thread, { pc, data: instruction.data });
+				break;
+			}
+
+			case 'testSequence':
+			case 'skip': {
+				// Fail if the input ends before all items are available
+				const length = getConsumedLength(instruction);
+				if (inputItems.length < length) {
+					this._endThreadAtEndOfInput(thread, pc, instruction);
+					break;
+				}
+				this.expectedTests.push({ pc, data: instruction.data });
+				if (instruction.op === 'testSequence') {
+					// Fail if input does not match
+					const func = instruction.func as SequenceTestFunc<I, O>;
+					const isInputAccepted = func(
+						inputItems.slice(0, length),
+						instruction.data,
+						options
+					);
+					if (!isInputAccepted) {
+						this._failThread(thread, null);
+						break;
+					}
+				}
+				// Continue in the generation following the items, preserving badness
+				this._continueThread(thread, length, pc + 1, 0);
+				break;
+			}
+
+			case 'jump': {
+				// Spawn new threads for all targets
+				for (
+					let iTarget = 0, nTargets = instruction.data.length;
+					iTarget < nTargets;
+					++iTarget
+				) {
+					this._continueThread(thread, 0, instruction.data[iTarget], 0);
+				}
+				break;
+			}
+
+			case 'record': {
+				if (!this._skipsRecords) {
+					// Invoke record callback
+					const func = instruction.func as RecordFunc<O>;
+					const record = func(instruction.data, inputIndex, options);
+					if (record !== null && record !== undefined) {
+						this._addRecord(thread, record);
+					}
+				}
+				// Continue with next instruction
+				this._continueThread(thread, 0, pc + 1, 0);
+				break;
+			}
+		}
+	}
+}
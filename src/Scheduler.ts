@@ -1,5 +1,21 @@
-import Generation from './Generation';
+import Generation, { PruningOptions } from './Generation';
 import Thread from './Thread';
+import Trace from './Trace';
+
+/**
+ * The Threads scheduled in a Scheduler, as captured by Scheduler#snapshot
+ */
+export type SchedulerSnapshot = {
+	generationsCompleted: number;
+	prunedThreadCount: number;
+	threads: {
+		generationOffset: number;
+		pc: number;
+		badness: number;
+		startGeneration: number;
+		trace: Trace;
+	}[];
+};
 
 /**
  * Schedules Threads to run in the current or a future Generation.
@@ -7,17 +23,24 @@ import Thread from './Thread';
 export default class Scheduler {
 	private _generations: Generation[] = [];
 	private _generationsCompleted: number;
+	private _prunedThreadCount: number = 0;
 
 	/**
 	 * @param numGenerations Number of Generations to plan ahead
 	 * @param programLength  Length of the program being run
 	 * @param oldThreadList  Array used for recycling Thread objects
+	 * @param pruningOptions Limits on the Threads kept in each Generation
 	 */
-	constructor(numGenerations: number, programLength: number, oldThreadList: Thread[]) {
+	constructor(
+		numGenerations: number,
+		programLength: number,
+		oldThreadList: Thread[],
+		pruningOptions: PruningOptions = {}
+	) {
 		// The active and scheduled generations
 		this._generations = [];
 		for (let i = 0; i < numGenerations; ++i) {
-			this._generations.push(new Generation(programLength, oldThreadList, i));
+			this._generations.push(new Generation(programLength, oldThreadList, i, pruningOptions));
 		}
 		// The number of generations executed so far
 		this._generationsCompleted = 0;
@@ -32,6 +55,76 @@ export default class Scheduler {
 			this._generations[i].reset(i);
 		}
 		this._generationsCompleted = 0;
+		this._prunedThreadCount = 0;
+	}
+
+	/**
+	 * Returns the number of Threads dropped due to pruning since the Scheduler was last reset.
+	 *
+	 * @return The number of dropped Threads
+	 */
+	getPrunedThreadCount(): number {
+		let count = this._prunedThreadCount;
+		for (let i = 0, l = this._generations.length; i < l; ++i) {
+			count += this._generations[i].prunedThreadCount;
+		}
+		return count;
+	}
+
+	/**
+	 * Captures the Threads that have not yet run in the current and scheduled Generations. The
+	 * Traces of these Threads are copied, so execution can continue independently from both the
+	 * Scheduler and any Schedulers the snapshot is restored to.
+	 *
+	 * @return The snapshot
+	 */
+	snapshot(): SchedulerSnapshot {
+		const threads: SchedulerSnapshot['threads'] = [];
+		for (let offset = 0, l = this._generations.length; offset < l; ++offset) {
+			this._getRelativeGeneration(offset)
+				.getPendingThreads()
+				.forEach(thread => {
+					threads.push({
+						generationOffset: offset,
+						pc: thread.pc,
+						badness: thread.badness,
+						startGeneration: thread.startGeneration,
+						trace: thread.trace.clone()
+					});
+				});
+		}
+		return {
+			generationsCompleted: this._generationsCompleted,
+			prunedThreadCount: this.getPrunedThreadCount(),
+			threads
+		};
+	}
+
+	/**
+	 * Replaces all Threads in the Scheduler with those captured in the given snapshot. The
+	 * snapshot itself is not modified, so it can be restored any number of times.
+	 *
+	 * @param snapshot The snapshot to restore, created using snapshot
+	 */
+	restore(snapshot: SchedulerSnapshot) {
+		const numGenerations = this._generations.length;
+		if (snapshot.threads.some(thread => thread.generationOffset >= numGenerations)) {
+			throw new Error('Not enough active generations to restore the snapshot');
+		}
+		this._generationsCompleted = snapshot.generationsCompleted;
+		this._prunedThreadCount = snapshot.prunedThreadCount;
+		for (let offset = 0; offset < numGenerations; ++offset) {
+			const generationNumber = this._generationsCompleted + offset;
+			this._generations[generationNumber % numGenerations].reset(generationNumber);
+		}
+		snapshot.threads.forEach(thread => {
+			this._getRelativeGeneration(thread.generationOffset).restoreThread(
+				thread.pc,
+				thread.trace.clone(),
+				thread.badness,
+				thread.startGeneration
+			);
+		});
 	}
 
 	private _getRelativeGeneration(generationOffset: number) {
@@ -66,6 +159,31 @@ export default class Scheduler {
 		return generationForThread.addThread(pc, parentThread, badness);
 	}
 
+	/**
+	 * Returns whether there are threads left to run in the current Generation.
+	 *
+	 * @return Whether a subsequent call to getNextThread will return a Thread
+	 */
+	hasNextThread(): boolean {
+		const currentGeneration = this._getRelativeGeneration(0);
+		return currentGeneration.hasNextThread();
+	}
+
+	/**
+	 * Returns whether there are threads left to run in the current or any of the scheduled
+	 * Generations.
+	 *
+	 * @return Whether any Threads remain
+	 */
+	hasScheduledThreads(): boolean {
+		for (let i = 0, l = this._generations.length; i < l; ++i) {
+			if (this._generations[i].hasNextThread()) {
+				return true;
+			}
+		}
+		return false;
+	}
+
 	/**
 	 * Returns the next thread to run in the current Generation.
 	 *
@@ -82,6 +200,7 @@ export default class Scheduler {
 	nextGeneration() {
 		// Recycle current generation and move to next
 		const currentGeneration = this._getRelativeGeneration(0);
+		this._prunedThreadCount += currentGeneration.prunedThreadCount;
 		currentGeneration.reset(this._generationsCompleted + this._generations.length);
 		++this._generationsCompleted;
 	}
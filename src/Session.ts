@@ -0,0 +1,156 @@
+import Execution, { CallSubProgramFunc, ExecutionOptions, ExecutionSnapshot } from './Execution';
+import { Instruction } from './Instruction';
+import Result from './Result';
+import Scheduler from './Scheduler';
+
+/**
+ * The state of a Session, as captured by Session#snapshot. Should be treated as opaque.
+ */
+export type SessionSnapshot = {
+	execution: ExecutionSnapshot;
+	result: Result | null;
+	inputLength: number;
+};
+
+/**
+ * An execution of a program which receives its input one item at a time. This allows checking
+ * input as it is being created, without having to run the program over the entire input again
+ * each time it is extended.
+ */
+export default class Session<I, O = void> {
+	private _program: Instruction<I, O>[];
+	private _createScheduler: () => Scheduler;
+	private _options: O | undefined;
+	private _executionOptions: ExecutionOptions | undefined;
+	private _callSubProgram: CallSubProgramFunc<I, O> | undefined;
+	private _execution: Execution<I, O>;
+	private _result: Result | null = null;
+	private _inputLength: number = 0;
+
+	/**
+	 * @param program          The program to run
+	 * @param createScheduler  Creates a Scheduler for use by the Session and its forks
+	 * @param options          Optional object passed to all instruction callbacks
+	 * @param executionOptions Limits for the execution
+	 * @param callSubProgram   Runs sub-programs for call instructions, if the program has any
+	 */
+	constructor(
+		program: Instruction<I, O>[],
+		createScheduler: () => Scheduler,
+		options: O | undefined,
+		executionOptions?: ExecutionOptions,
+		callSubProgram?: CallSubProgramFunc<I, O>
+	) {
+		this._program = program;
+		this._createScheduler = createScheduler;
+		this._options = options;
+		this._executionOptions = executionOptions;
+		this._callSubProgram = callSubProgram;
+		this._execution = new Execution(
+			program,
+			createScheduler(),
+			options,
+			false,
+			executionOptions,
+			callSubProgram
+		);
+	}
+
+	/**
+	 * The number of input items fed to the Session so far
+	 */
+	get inputLength(): number {
+		return this._inputLength;
+	}
+
+	/**
+	 * Whether the input has been ended
+	 */
+	get isEnded(): boolean {
+		return this._result !== null;
+	}
+
+	/**
+	 * Appends an item to the input and runs the program on it.
+	 *
+	 * @param inputItem The input item, which may be any value including null and undefined
+	 */
+	feed(inputItem: I) {
+		if (this._result !== null) {
+			throw new Error('Can not feed input to a session that has ended');
+		}
+		++this._inputLength;
+		// Input is ignored once no threads remain to process it, or a limit has been exceeded
+		if (this._execution.isRunning()) {
+			this._execution.step(false, inputItem);
+		}
+	}
+
+	/**
+	 * Ends the input and returns the final Result. Calling end again returns the same Result.
+	 *
+	 * @return Result of the execution, as returned by VM#execute for the complete input
+	 */
+	end(): Result {
+		if (this._result === null) {
+			if (this._execution.isRunning()) {
+				this._execution.step(true);
+			}
+			this._result = this._execution.getResult();
+		}
+		return this._result;
+	}
+
+	/**
+	 * Returns the Result the Session would produce if the input was ended now, without ending the
+	 * input. This can be used to check whether the input so far is accepted or is a viable prefix.
+	 *
+	 * @return The Result
+	 */
+	getResult(): Result {
+		return this._result !== null ? this._result : this.fork().end();
+	}
+
+	/**
+	 * Captures the current state of the Session, which can later be restored to continue from the
+	 * current input position.
+	 *
+	 * @return The snapshot
+	 */
+	snapshot(): SessionSnapshot {
+		return {
+			execution: this._execution.snapshot(),
+			result: this._result,
+			inputLength: this._inputLength
+		};
+	}
+
+	/**
+	 * Replaces the state of the Session with the given snapshot, which should have been created by
+	 * a Session for the same VM. The snapshot can be restored any number of times.
+	 *
+	 * @param snapshot The snapshot to restore
+	 */
+	restore(snapshot: SessionSnapshot) {
+		this._execution.restore(snapshot.execution);
+		this._result = snapshot.result;
+		this._inputLength = snapshot.inputLength;
+	}
+
+	/**
+	 * Creates a new Session which continues independently from the current state of this one.
+	 *
+	 * @return The new Session
+	 */
+	fork(): Session<I, O> {
+		const session = new Session(
+			this._program,
+			this._createScheduler,
+			this._options,
+			this._executionOptions,
+			this._callSubProgram
+		);
+		session.restore(this.snapshot());
+		return session;
+	}
+}
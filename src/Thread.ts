@@ -7,6 +7,11 @@ export default class Thread {
 	public pc!: number;
 	public trace!: Trace;
 	public badness!: number;
+	/**
+	 * The generation in which the attempt to match that led to this Thread started. Threads are
+	 * only joined with Threads of the same attempt.
+	 */
+	public startGeneration!: number;
 
 	private _generationNumber!: number;
 
@@ -49,7 +54,9 @@ export default class Thread {
 		this.trace = new Trace(pc, programLength, prefixTrace, generationNumber);
 
 		this.badness = badness || 0;
+		this.trace.badness = this.badness;
 
+		this.startGeneration = parentThread ? parentThread.startGeneration : generationNumber;
 		this._generationNumber = generationNumber;
 	}
 
@@ -64,6 +71,7 @@ export default class Thread {
 			this.trace.join(otherParentThread.trace);
 		}
 		this.badness = Math.max(this.badness, badness);
+		this.trace.badness = this.badness;
 	}
 
 	/**
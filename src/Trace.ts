@@ -1,18 +1,102 @@
-function mergeVisitedInstructions(
-	targetVisitedInstructions: number[],
-	otherVisitedInstructions: number[],
-	programLength: number
-) {
-	for (let i = 0; i < programLength; ++i) {
-		const ourGeneration = targetVisitedInstructions[i];
-		const otherGeneration = otherVisitedInstructions[i];
+import * as bigNatural from './bigNatural';
+import { BigNatural } from './bigNatural';
 
-		if (ourGeneration === undefined) {
-			targetVisitedInstructions[i] = otherGeneration;
-		} else if (otherGeneration !== undefined) {
-			targetVisitedInstructions[i] = Math.max(ourGeneration, otherGeneration);
+/**
+ * Creates a bitset large enough to hold a bit for each instruction in a program
+ */
+function createBitset(programLength: number): Uint32Array {
+	return new Uint32Array((programLength + 31) >>> 5);
+}
+
+function hasBit(bitset: Uint32Array, index: number): boolean {
+	return (bitset[index >>> 5] & (1 << (index & 31))) !== 0;
+}
+
+function setBit(bitset: Uint32Array, index: number) {
+	bitset[index >>> 5] |= 1 << (index & 31);
+}
+
+function mergeBitsets(targetBitset: Uint32Array, otherBitset: Uint32Array) {
+	for (let i = 0, l = targetBitset.length; i < l; ++i) {
+		targetBitset[i] |= otherBitset[i];
+	}
+}
+
+/**
+ * A single path through a Trace, from the start of execution up to and including the Trace's head
+ */
+export interface TracePath {
+	/**
+	 * Program counters of the instructions executed along the path
+	 */
+	pcs: number[];
+	/**
+	 * Records made along the path
+	 */
+	records: any[];
+	/**
+	 * Total cost of the bad instructions executed along the path
+	 */
+	badness: number;
+}
+
+/**
+ * Options for enumerating paths through a Trace
+ */
+export interface PathOptions {
+	/**
+	 * Maximum number of paths to produce. Defaults to producing all paths.
+	 */
+	limit?: number;
+	/**
+	 * Whether to skip paths that are equal to a previously produced path. If true, paths are
+	 * considered equal when they visit the same instructions. Alternatively, a function can be
+	 * passed to generate a key for each path, paths with equal keys are then considered equal.
+	 */
+	deduplicate?: boolean | ((path: TracePath) => string);
+}
+
+function getPathKey(path: TracePath): string {
+	return path.pcs.join(',');
+}
+
+function createPath(tracesFromHead: Trace[]): TracePath {
+	const path: TracePath = { pcs: [], records: [], badness: 0 };
+	for (let i = tracesFromHead.length - 1; i >= 0; --i) {
+		path.pcs.push.apply(path.pcs, tracesFromHead[i].head);
+		path.records.push.apply(path.records, tracesFromHead[i].records);
+		path.badness += tracesFromHead[i].cost;
+	}
+	return path;
+}
+
+function countPathsByTrace(trace: Trace): Map<Trace, BigNatural> {
+	const countByTrace = new Map<Trace, BigNatural>();
+	// Post-order traversal of the prefixes, using an explicit stack to support long traces
+	const stack = [trace];
+	while (stack.length) {
+		const current = stack[stack.length - 1];
+		if (countByTrace.has(current)) {
+			stack.pop();
+			continue;
+		}
+		const prefixes = current.prefixes;
+		let count = prefixes.length ? bigNatural.ZERO : bigNatural.ONE;
+		for (let i = 0, l = prefixes.length; i < l; ++i) {
+			const prefixCount = countByTrace.get(prefixes[i]);
+			if (prefixCount === undefined) {
+				stack.push(prefixes[i]);
+			} else {
+				count = bigNatural.add(count, prefixCount);
+			}
+		}
+		if (stack[stack.length - 1] === current) {
+			// All prefixes have been counted
+			stack.pop();
+			countByTrace.set(current, count);
 		}
 	}
+	return countByTrace;
 }
 
 /**
@@ -22,11 +106,49 @@ export default class Trace {
 	public head: number[] = [];
 	public records: any[] = [];
 	public prefixes: Trace[] = [];
+	/**
+	 * The badness of the Thread running this trace's head, used for debugging purposes
+	 */
+	public badness: number = 0;
+	/**
+	 * The total cost of the bad instructions in this trace's head. Unlike badness, this does not
+	 * depend on the paths leading up to the trace.
+	 */
+	public cost: number = 0;
+	/**
+	 * The lookahead or negativeLookahead instruction that rejected the input for the Thread
+	 * running this trace's head, ending the Thread. Null if the trace was not rejected by a
+	 * lookahead.
+	 */
+	public rejectingLookahead: { pc: number; data: any } | null = null;
+	/**
+	 * The accepting Traces of the sub-programs run by call instructions in this trace's head, in
+	 * the order in which the calls were made
+	 */
+	public subTraces: Trace[] = [];
 
 	private _descendants: Trace[] = [];
+	private _generation: number;
 	private _isCompacted: boolean = false;
 	private _programLength: number;
-	private _visitedInstructions: number[];
+	/**
+	 * The generation in which each instruction in the head was visited
+	 */
+	private _headGenerations: number[];
+	/**
+	 * The generation in which the Trace's Thread ran, i.e., the last generation of its head
+	 */
+	private _visitedGeneration: number;
+	/**
+	 * The most recent generation visited by any of the paths leading to this Trace
+	 */
+	private _latestGeneration: number;
+	/**
+	 * Bitset of the instructions visited in _visitedGeneration by any of the paths leading to this
+	 * Trace. This is all that is needed to detect cycles while the generation is running, and is
+	 * released when the Trace is compacted.
+	 */
+	private _visitedInstructions: Uint32Array | null;
 
 	/**
 	 * @param pc               Program counter for the scheduled instruction
@@ -41,16 +163,31 @@ export default class Trace {
 		generationNumber: number
 	) {
 		this.head = [pc];
+		this._headGenerations = [generationNumber];
+		this._generation = generationNumber;
+		this._visitedGeneration = generationNumber;
+		this._latestGeneration = precedingTrace
+			? Math.max(generationNumber, precedingTrace._latestGeneration)
+			: generationNumber;
 		this._programLength = programLength;
 
+		if (
+			precedingTrace &&
+			precedingTrace._visitedInstructions !== null &&
+			precedingTrace._visitedGeneration === generationNumber
+		) {
+			// Continue the set of instructions visited in this generation
+			this._visitedInstructions = new Uint32Array(precedingTrace._visitedInstructions);
+		} else {
+			// Starting a new generation, no instructions visited yet
+			this._visitedInstructions = createBitset(programLength);
+		}
+		setBit(this._visitedInstructions, pc);
+
 		if (precedingTrace) {
 			this.prefixes.push(precedingTrace);
 			precedingTrace._descendants.push(this);
-			this._visitedInstructions = precedingTrace._visitedInstructions.slice(0);
-		} else {
-			this._visitedInstructions = new Array(programLength);
 		}
-		this._visitedInstructions[pc] = generationNumber;
 	}
 
 	/**
@@ -65,13 +202,23 @@ export default class Trace {
 		this.prefixes.push(prefixTrace);
 		this._isCompacted = false;
 
+		const prefixVisitedInstructions = prefixTrace._visitedInstructions;
+		const generation = prefixTrace._latestGeneration;
 		(function mergeVisitedInstructionsIntoTrace(trace: Trace) {
-			// Merge prefixTrace's set of visited instructions into our own
-			mergeVisitedInstructions(
-				trace._visitedInstructions,
-				prefixTrace._visitedInstructions,
-				trace._programLength
-			);
+			if (trace._visitedGeneration > generation) {
+				// Traces in later generations only track their own generation, as do their
+				// descendants
+				return;
+			}
+			trace._latestGeneration = Math.max(trace._latestGeneration, generation);
+			// Merge prefixTrace's set of visited instructions into those for the same generation
+			if (
+				prefixVisitedInstructions !== null &&
+				trace._visitedInstructions !== null &&
+				trace._visitedGeneration === prefixTrace._visitedGeneration
+			) {
+				mergeBitsets(trace._visitedInstructions, prefixVisitedInstructions);
+			}
 			// Do the same for the descendants
 			for (let i = 0, l = trace._descendants.length; i < l; ++i) {
 				mergeVisitedInstructionsIntoTrace(trace._descendants[i]);
@@ -79,21 +226,93 @@ export default class Trace {
 		})(this);
 	}
 
+	/**
+	 * Creates a copy of the Trace which shares its prefixes. This allows continuing the Trace
+	 * along several independent paths, e.g. when restoring a snapshot of an execution.
+	 *
+	 * @return The copy
+	 */
+	clone(): Trace {
+		const trace = new Trace(this.head[0], this._programLength, null, this._generation);
+		trace.head = this.head.slice();
+		trace._headGenerations = this._headGenerations.slice();
+		trace.records = this.records.slice();
+		trace.subTraces = this.subTraces.slice();
+		trace.prefixes = this.prefixes.slice();
+		for (let i = 0, l = trace.prefixes.length; i < l; ++i) {
+			trace.prefixes[i]._descendants.push(trace);
+		}
+		trace.badness = this.badness;
+		trace.cost = this.cost;
+		trace.rejectingLookahead = this.rejectingLookahead;
+		trace._isCompacted = this._isCompacted;
+		trace._visitedGeneration = this._visitedGeneration;
+		trace._latestGeneration = this._latestGeneration;
+		trace._visitedInstructions =
+			this._visitedInstructions === null ? null : new Uint32Array(this._visitedInstructions);
+		return trace;
+	}
+
 	/**
 	 * Returns whether the Trace has visited the specified instruction, in the given generation.
+	 * Only the most recent generation in which any path leading to the Trace visited the
+	 * instruction is considered.
 	 *
 	 * If no generation is given, it is tested if the trace has passed the instruction at all.
 	 *
+	 * This is fast for the generation in which the Trace's Thread is running, as used to detect
+	 * cycles. Other queries walk all paths leading to the Trace.
+	 *
 	 * @param pc         Program counter for the instruction to test
 	 * @param generation The index of the generation to test for
 	 *
 	 * @return Whether the trace has visited the instruction
 	 */
 	contains(pc: number, generation?: number): boolean {
-		if (generation === undefined) {
-			return this._visitedInstructions[pc] !== undefined;
+		if (generation !== undefined && generation > this._latestGeneration) {
+			// No path has reached that generation yet
+			return false;
+		}
+		if (
+			this._visitedInstructions !== null &&
+			this._latestGeneration === this._visitedGeneration
+		) {
+			// No path has visited a later generation than our own, which is tracked in the bitset
+			if (hasBit(this._visitedInstructions, pc)) {
+				return generation === undefined || generation === this._visitedGeneration;
+			}
+			if (generation === this._visitedGeneration) {
+				return false;
+			}
 		}
-		return this._visitedInstructions[pc] === generation;
+		const mostRecentGeneration = this._getMostRecentVisit(pc);
+		return generation === undefined
+			? mostRecentGeneration !== null
+			: mostRecentGeneration === generation;
+	}
+
+	private _getMostRecentVisit(pc: number): number | null {
+		let mostRecentGeneration: number | null = null;
+		const seenTraces = new Set<Trace>();
+		const pending: Trace[] = [this];
+		while (pending.length) {
+			const trace = pending.pop() as Trace;
+			if (seenTraces.has(trace)) {
+				continue;
+			}
+			seenTraces.add(trace);
+			for (let i = trace.head.length - 1; i >= 0; --i) {
+				if (trace.head[i] === pc) {
+					const generation = trace._headGenerations[i];
+					if (mostRecentGeneration === null || generation > mostRecentGeneration) {
+						mostRecentGeneration = generation;
+					}
+					break;
+				}
+			}
+			pending.push.apply(pending, trace.prefixes);
+		}
+		return mostRecentGeneration;
 	}
 
 	/**
@@ -110,8 +329,15 @@ export default class Trace {
 			const prefix = trace.prefixes[0];
 			// Combine heads
 			this.head.unshift.apply(this.head, prefix.head);
+			this._headGenerations.unshift.apply(this._headGenerations, prefix._headGenerations);
 			// Combine records
 			this.records.unshift.apply(this.records, prefix.records);
+			this.subTraces.unshift.apply(this.subTraces, prefix.subTraces);
+			// Combine badness
+			this.badness = Math.max(this.badness, prefix.badness);
+			this.cost += prefix.cost;
+			// The trace now starts where the prefix started
+			this._generation = prefix._generation;
 			// Adopt prefixes
 			this.prefixes = prefix.prefixes;
 			// Continue
@@ -119,9 +345,235 @@ export default class Trace {
 		}
 		this._isCompacted = true;
 
+		// The generation has ended, so the Trace no longer needs to track visited instructions
+		// for detecting cycles, nor to update descendants when it is joined
+		this._visitedInstructions = null;
+		this._descendants.length = 0;
+
 		// Recurse
 		for (let i = 0, l = trace.prefixes.length; i < l; ++i) {
 			trace.prefixes[i].compact();
 		}
 	}
+
+	/**
+	 * Returns the generations in which the paths leading to this trace started. As each generation
+	 * processes a single input item, these correspond to the input index at which each path
+	 * started.
+	 *
+	 * @return The generation numbers, in ascending order
+	 */
+	getStartGenerations(): number[] {
+		const startGenerations: number[] = [];
+		const seenTraces = new Set<Trace>();
+		const pending: Trace[] = [this];
+		while (pending.length) {
+			const trace = pending.pop() as Trace;
+			if (seenTraces.has(trace)) {
+				continue;
+			}
+			seenTraces.add(trace);
+			if (!trace.prefixes.length && startGenerations.indexOf(trace._generation) === -1) {
+				startGenerations.push(trace._generation);
+			}
+			pending.push.apply(pending, trace.prefixes);
+		}
+		return startGenerations.sort((a, b) => a - b);
+	}
+
+	/**
+	 * Lazily enumerates the paths from the start of execution to this trace's head, following the
+	 * prefixes of each trace in order.
+	 *
+	 * Note that joined traces may represent a number of paths that is exponential in their length,
+	 * consider limiting or deduplicating the paths produced.
+	 *
+	 * @param options Options to limit or deduplicate the paths
+	 *
+	 * @return Iterator producing each path
+	 */
+	*paths(options: PathOptions = {}): IterableIterator<TracePath> {
+		const limit = options.limit === undefined ? Infinity : options.limit;
+		const getKey = options.deduplicate === true ? getPathKey : options.deduplicate || null;
+		const seenKeys: { [key: string]: boolean } = Object.create(null);
+		let numPaths = 0;
+
+		// Depth-first traversal of the prefixes, using an explicit stack to support long traces
+		const stack: { trace: Trace; nextPrefix: number }[] = [{ trace: this, nextPrefix: 0 }];
+		while (stack.length && numPaths < limit) {
+			const frame = stack[stack.length - 1];
+			const prefixes = frame.trace.prefixes;
+			if (frame.nextPrefix < prefixes.length) {
+				stack.push({ trace: prefixes[frame.nextPrefix++], nextPrefix: 0 });
+				continue;
+			}
+			stack.pop();
+			if (prefixes.length) {
+				continue;
+			}
+
+			// Reached the start of the trace, the stack now holds the path in reverse
+			const path = createPath(stack.map(entry => entry.trace).concat(frame.trace));
+			if (getKey) {
+				const key = getKey(path);
+				if (seenKeys[key]) {
+					continue;
+				}
+				seenKeys[key] = true;
+			}
+			++numPaths;
+			yield path;
+		}
+	}
+
+	/**
+	 * Counts the paths from the start of execution to this trace's head, without enumerating them.
+	 *
+	 * @return The number of paths. This is approximate if it exceeds Number.MAX_SAFE_INTEGER, use
+	 *         countPathsExact to obtain the exact number in that case.
+	 */
+	countPaths(): number {
+		return bigNatural.toNumber(countPathsByTrace(this).get(this) as BigNatural);
+	}
+
+	/**
+	 * Counts the paths from the start of execution to this trace's head, without enumerating them.
+	 *
+	 * @return The exact number of paths, as a string of decimal digits
+	 */
+	countPathsExact(): string {
+		return bigNatural.toString(countPathsByTrace(this).get(this) as BigNatural);
+	}
+
+	/**
+	 * Returns the path at the given index in the order in which they are produced by paths(),
+	 * without enumerating the preceding paths.
+	 *
+	 * @param index The index of the path, as a number or as a string of decimal digits
+	 *
+	 * @return The path, or null if the index is out of range
+	 */
+	getPath(index: number | string): TracePath | null {
+		const countByTrace = countPathsByTrace(this);
+		const pathIndex =
+			typeof index === 'number' ? bigNatural.fromNumber(index) : bigNatural.fromString(index);
+		if (bigNatural.compare(pathIndex, countByTrace.get(this) as BigNatural) >= 0) {
+			return null;
+		}
+		return selectPath(this, pathIndex, countByTrace);
+	}
+
+	/**
+	 * Draws a path from the start of execution to this trace's head, each path being equally
+	 * likely to be returned.
+	 *
+	 * @param random Function returning a uniformly random number in the range [0, 1). Defaults to
+	 *               Math.random.
+	 *
+	 * @return The path
+	 */
+	samplePath(random: () => number = Math.random): TracePath {
+		const countByTrace = countPathsByTrace(this);
+		const index = bigNatural.randomBelow(countByTrace.get(this) as BigNatural, random);
+		return selectPath(this, index, countByTrace);
+	}
+
+	/**
+	 * Returns the paths from the start of execution to this trace's head with the lowest total
+	 * badness, without enumerating all paths. Paths with equal badness are returned in the order in
+	 * which they are produced by paths().
+	 *
+	 * @param maxPaths The maximum number of paths to return. Defaults to 1.
+	 *
+	 * @return Up to maxPaths paths, ordered by increasing badness
+	 */
+	getBestPaths(maxPaths: number = 1): TracePath[] {
+		const rankedPathsByTrace = rankPathsByTrace(this, maxPaths);
+		return (rankedPathsByTrace.get(this) as RankedPath[]).map((_rankedPath, rank) =>
+			selectRankedPath(this, rank, rankedPathsByTrace)
+		);
+	}
+}
+
+/**
+ * One of the best partial paths leading to a trace, referring to the path through its prefix
+ */
+type RankedPath = { badness: number; prefixIndex: number; prefixRank: number };
+
+function compareRankedPaths(a: RankedPath, b: RankedPath): number {
+	return a.badness - b.badness || a.prefixIndex - b.prefixIndex || a.prefixRank - b.prefixRank;
+}
+
+function rankPathsByTrace(trace: Trace, maxPaths: number): Map<Trace, RankedPath[]> {
+	const rankedPathsByTrace = new Map<Trace, RankedPath[]>();
+	// Post-order traversal of the prefixes, using an explicit stack to support long traces
+	const stack = [trace];
+	while (stack.length) {
+		const current = stack[stack.length - 1];
+		if (rankedPathsByTrace.has(current)) {
+			stack.pop();
+			continue;
+		}
+		const prefixes = current.prefixes;
+		const candidates: RankedPath[] = prefixes.length
+			? []
+			: [{ badness: current.cost, prefixIndex: -1, prefixRank: -1 }];
+		for (let i = 0, l = prefixes.length; i < l; ++i) {
+			const prefixPaths = rankedPathsByTrace.get(prefixes[i]);
+			if (prefixPaths === undefined) {
+				stack.push(prefixes[i]);
+				continue;
+			}
+			prefixPaths.forEach((prefixPath, rank) => {
+				candidates.push({
+					badness: prefixPath.badness + current.cost,
+					prefixIndex: i,
+					prefixRank: rank
+				});
+			});
+		}
+		if (stack[stack.length - 1] === current) {
+			// All prefixes have been ranked
+			stack.pop();
+			rankedPathsByTrace.set(current, candidates.sort(compareRankedPaths).slice(0, maxPaths));
+		}
+	}
+	return rankedPathsByTrace;
+}
+
+function selectRankedPath(
+	trace: Trace,
+	rank: number,
+	rankedPathsByTrace: Map<Trace, RankedPath[]>
+): TracePath {
+	const tracesFromHead = [trace];
+	let rankedPath = (rankedPathsByTrace.get(trace) as RankedPath[])[rank];
+	while (rankedPath.prefixIndex !== -1) {
+		trace = trace.prefixes[rankedPath.prefixIndex];
+		rankedPath = (rankedPathsByTrace.get(trace) as RankedPath[])[rankedPath.prefixRank];
+		tracesFromHead.push(trace);
+	}
+	return createPath(tracesFromHead);
+}
+
+function selectPath(
+	trace: Trace,
+	index: BigNatural,
+	countByTrace: Map<Trace, BigNatural>
+): TracePath {
+	const tracesFromHead = [trace];
+	while (trace.prefixes.length) {
+		// Find the prefix containing the path
+		for (let i = 0, l = trace.prefixes.length; i < l; ++i) {
+			const prefix = trace.prefixes[i];
+			const prefixCount = countByTrace.get(prefix) as BigNatural;
+			if (bigNatural.compare(index, prefixCount) < 0) {
+				trace = prefix;
+				break;
+			}
+			index = bigNatural.subtract(index, prefixCount);
+		}
+		tracesFromHead.push(trace);
+	}
+	return createPath(tracesFromHead);
 }
@@ -1,26 +1,231 @@
-import { Instruction, FailFunc, RecordFunc, TestFunc } from './Instruction';
-import Result from './Result';
+import Execution, { AbortSignalLike, ExecutionOptions } from './Execution';
+import {
+	createAsyncInputReader,
+	createInputReader,
+	AsyncInput,
+	AsyncInputReader,
+	Input
+} from './input';
+import { getLookahead, Instruction } from './Instruction';
+import recognize from './recognize';
+import Recognizer from './Recognizer';
+import Result, { ExecutionLimit } from './Result';
+import { PruningOptions } from './Generation';
 import Scheduler from './Scheduler';
+import Session from './Session';
 import Thread from './Thread';
+import Trace from './Trace';
+import validateProgram, { formatDiagnostics } from './validateProgram';
 
-const NUMBER_OF_SCHEDULED_GENERATIONS = 2;
+/**
+ * Options used when constructing a VM.
+ */
+export interface VMOptions<I = any, O = any> {
+	/**
+	 * Validate the program before accepting it, throwing an error if validation finds any errors.
+	 * Defaults to false.
+	 */
+	validate?: boolean;
+	/**
+	 * Maximum number of Threads to carry over to the next input item. When exceeded, Threads with
+	 * the highest badness are dropped. This trades completeness for speed when the program
+	 * contains many costly alternatives, such as programs correcting their input. Defaults to no
+	 * limit.
+	 */
+	beamWidth?: number;
+	/**
+	 * Maximum badness for Threads, Threads with a higher badness are dropped. Defaults to no limit.
+	 */
+	maxBadness?: number;
+	/**
+	 * Programs that can be run by call instructions, by id. Sub-programs may contain call
+	 * instructions themselves, including ones calling the same sub-program, and are run using the
+	 * same options as the VM.
+	 */
+	subPrograms?: { [subProgramId: string]: Instruction<I, O>[] };
+}
+
+/**
+ * A sequence of input items accepted by the program, found by searching the input.
+ */
+export interface SearchMatch {
+	/**
+	 * Index of the first input item in the match
+	 */
+	start: number;
+	/**
+	 * Index following the last input item in the match
+	 */
+	end: number;
+	/**
+	 * Badness of the Thread that accepted the match
+	 */
+	badness: number;
+	/**
+	 * Trace leading to acceptance, containing the paths of the match
+	 */
+	trace: Trace;
+}
+
+/**
+ * Runs an Execution or Recognizer on the given input, until the input ends or reading further
+ * input is pointless
+ */
+function runOnInput<I>(
+	runner: { isRunning(): boolean; step(isEndOfInput: boolean, inputItem?: I): void },
+	input: Input<I>
+) {
+	const read = createInputReader(input);
+	try {
+		while (runner.isRunning()) {
+			const next = read();
+			runner.step(next.done, next.value);
+			if (next.done) {
+				break;
+			}
+		}
+	} finally {
+		read.close();
+	}
+}
+
+// Timers are available wherever the VM runs, but are not part of the language
+declare function setTimeout(callback: () => void, delay: number): any;
+declare function clearTimeout(handle: any): void;
+
+/**
+ * The number of milliseconds between checks of a signal that does not support event listeners,
+ * while waiting for asynchronous input
+ */
+const SIGNAL_POLL_INTERVAL = 10;
+
+/**
+ * Reads the next input item, unless the execution is aborted or times out while waiting for it
+ *
+ * @param read     Function reading the next input item
+ * @param signal   The signal to abort the execution, if any
+ * @param deadline The time at which the execution times out, Infinity if it does not
+ *
+ * @return Promise for the next input item, or for the limit exceeded while waiting for it
+ */
+function readUntilInterrupted<I>(
+	read: AsyncInputReader<I>,
+	signal: AbortSignalLike | undefined,
+	deadline: number
+): Promise<IteratorResult<I> | ExecutionLimit> {
+	if (signal === undefined && deadline === Infinity) {
+		return read();
+	}
+	if (signal !== undefined && signal.aborted) {
+		return Promise.resolve<ExecutionLimit>('aborted');
+	}
+	if (Date.now() >= deadline) {
+		return Promise.resolve<ExecutionLimit>('timeout');
+	}
+	return new Promise((resolve, reject) => {
+		let isSettled = false;
+		let timeoutTimer: any = null;
+		let pollTimer: any = null;
+		function settle(finish: () => void) {
+			if (isSettled) {
+				return;
+			}
+			isSettled = true;
+			if (timeoutTimer !== null) {
+				clearTimeout(timeoutTimer);
+			}
+			if (pollTimer !== null) {
+				clearTimeout(pollTimer);
+			}
+			if (signal !== undefined && signal.removeEventListener) {
+				signal.removeEventListener('abort', onAbort);
+			}
+			finish();
+		}
+		function onAbort() {
+			settle(() => resolve('aborted'));
+		}
+		function pollSignal() {
+			if ((signal as AbortSignalLike).aborted) {
+				onAbort();
+				return;
+			}
+			pollTimer = setTimeout(pollSignal, SIGNAL_POLL_INTERVAL);
+		}
+
+		if (signal !== undefined) {
+			if (signal.addEventListener) {
+				signal.addEventListener('abort', onAbort);
+			} else {
+				pollTimer = setTimeout(pollSignal, SIGNAL_POLL_INTERVAL);
+			}
+		}
+		if (deadline !== Infinity) {
+			timeoutTimer = setTimeout(
+				() => settle(() => resolve('timeout')),
+				deadline - Date.now()
+			);
+		}
+		read().then(
+			next => settle(() => resolve(next)),
+			error => settle(() => reject(error))
+		);
+	});
+}
 
 /**
  * A virtual machine to execute whynot programs.
  */
 export default class VM<I, O = void> {
 	private _program: Instruction<I, O>[];
+	private _numberOfScheduledGenerations: number;
 	private _schedulers: Scheduler[] = [];
 	private _nextFreeScheduler: number = 0;
 	private _oldThreadList: Thread[];
+	private _pruningOptions: PruningOptions;
+	private _vmOptions: VMOptions<I, O>;
+	/**
+	 * VMs running the sub-programs, created when first called. These are shared with the VMs for
+	 * the sub-programs, so each sub-program only needs a single VM.
+	 */
+	private _subProgramVMs: { [subProgramId: string]: VM<I, O> } = {};
 
 	/**
 	 * @param program       The program to run, as created by the Assembler
 	 * @param oldThreadList Array used for recycling Thread objects. An existing array can be passed
 	 *                      in to share recycled threads between VMs.
+	 * @param vmOptions     Additional options for the VM
 	 */
-	constructor(program: Instruction<I, O>[], oldThreadList: Thread[] = []) {
+	constructor(
+		program: Instruction<I, O>[],
+		oldThreadList: Thread[] = [],
+		vmOptions: VMOptions<I, O> = {}
+	) {
+		if (vmOptions.validate) {
+			const errors = validateProgram(program).filter(
+				diagnostic => diagnostic.severity === 'error'
+			);
+			if (errors.length) {
+				throw new Error('Invalid program:\n' + formatDiagnostics(errors));
+			}
+		}
+
+		if (
+			vmOptions.beamWidth !== undefined &&
+			!(vmOptions.beamWidth >= 1 && vmOptions.beamWidth % 1 === 0)
+		) {
+			throw new Error('The beam width should be a positive integer');
+		}
+
 		this._program = program;
+		this._vmOptions = vmOptions;
+		// Threads may be scheduled as far ahead as the largest number of items consumed by any
+		// instruction, in addition to the current generation
+		this._numberOfScheduledGenerations = getLookahead(program) + 1;
+		this._pruningOptions = {
+			beamWidth: vmOptions.beamWidth,
+			maxBadness: vmOptions.maxBadness
+		};
 
 		// Use multiple schedulers to make the VM reentrant. This way, one can implement recursion
 		// by executing a VM inside a test, fail or record callback.
@@ -29,16 +234,40 @@ export default class VM<I, O = void> {
 		this._oldThreadList = oldThreadList;
 	}
 
+	private _createScheduler(): Scheduler {
+		return new Scheduler(
+			this._numberOfScheduledGenerations,
+			this._program.length,
+			this._oldThreadList,
+			this._pruningOptions
+		);
+	}
+
+	private _callSubProgram(
+		subProgramId: string,
+		input: Input<I>,
+		options: O | undefined,
+		executionOptions?: ExecutionOptions
+	): Result {
+		let vm = this._subProgramVMs[subProgramId];
+		if (!vm) {
+			const subPrograms = this._vmOptions.subPrograms || {};
+			if (!Object.prototype.hasOwnProperty.call(subPrograms, subProgramId)) {
+				throw new Error('Unknown sub-program "' + subProgramId + '"');
+			}
+			vm = new VM(subPrograms[subProgramId], this._oldThreadList, this._vmOptions);
+			vm._subProgramVMs = this._subProgramVMs;
+			this._subProgramVMs[subProgramId] = vm;
+		}
+		return vm.execute(input, options, executionOptions);
+	}
+
 	private _getScheduler(): Scheduler {
 		let scheduler;
 		if (this._nextFreeScheduler < this._schedulers.length) {
 			scheduler = this._schedulers[this._nextFreeScheduler];
 		} else {
-			scheduler = new Scheduler(
-				NUMBER_OF_SCHEDULED_GENERATIONS,
-				this._program.length,
-				this._oldThreadList
-			);
+			scheduler = this._createScheduler();
 			this._schedulers.push(scheduler);
 		}
 		++this._nextFreeScheduler;
@@ -49,141 +278,201 @@ export default class VM<I, O = void> {
 		--this._nextFreeScheduler;
 	}
 
+	private _run(
+		input: Input<I>,
+		options: O | undefined,
+		isSearch: boolean,
+		executionOptions?: ExecutionOptions
+	): Execution<I, O> {
+		const execution = new Execution(
+			this._program,
+			this._getScheduler(),
+			options,
+			isSearch,
+			executionOptions,
+			(subProgramId, subProgramInput, subProgramOptions) =>
+				this._callSubProgram(subProgramId, subProgramInput, subProgramOptions)
+		);
+		runOnInput(execution, input);
+		this._releaseScheduler();
+		return execution;
+	}
+
+	private _createRecognizer(
+		options: O | undefined,
+		executionOptions: ExecutionOptions
+	): Recognizer<I, O> {
+		return new Recognizer(
+			this._program,
+			options,
+			executionOptions,
+			(subProgramId, subProgramInput, subProgramOptions) =>
+				this._callSubProgram(subProgramId, subProgramInput, subProgramOptions, {
+					firstMatch: true
+				}).success,
+			true
+		);
+	}
+
 	/**
 	 * Executes the program in the VM with the given input stream.
 	 *
-	 * @param input   Should return the next input item when called, or null when no further input
-	 *                is available.
-	 * @param options Optional object passed to all instruction callbacks.
+	 * @param input            The input, either as an array or other Iterable, as an Iterator, or
+	 *                         as a function returning the next input item when called and null when
+	 *                         no further input is available. Only the first two allow null and
+	 *                         undefined input items.
+	 * @param options          Optional object passed to all instruction callbacks.
+	 * @param executionOptions Optional limits for the execution. If any limit is exceeded,
+	 *                         execution stops and the Result indicates which limit was hit.
 	 *
 	 * @return Result of the execution, containing all Traces that lead to acceptance of the input,
-	 *         and all traces which lead to failure in the last Generation.
-	 */
-	execute(input: () => I | null, options?: O) {
-		const scheduler = this._getScheduler();
-		const program = this._program;
-
-		// Reset the scheduler
-		scheduler.reset();
-
-		// Add initial thread
-		scheduler.addThread(0, 0);
-
-		const acceptingTraces = [];
-		const failingTraces = [];
-		let inputIndex = -1;
-		let inputItem: I | null;
-		do {
-			// Get next thread to execute
-			let thread = scheduler.getNextThread();
-			if (!thread) {
-				break;
-			}
+	 *         all traces which lead to failure in the last Generation, and the traces of Threads
+	 *         that could continue if more input were available.
+	 */
+	execute(input: Input<I>, options?: O, executionOptions: ExecutionOptions = {}): Result {
+		if (executionOptions.firstMatch) {
+			const recognizer = this._createRecognizer(options, executionOptions);
+			runOnInput(recognizer, input);
+			return recognizer.getResult();
+		}
+		return this._run(input, options, false, executionOptions).getResult();
+	}
 
-			// We only record failing traces for the last active Generation
-			failingTraces.length = 0;
-
-			// Read next input item
-			++inputIndex;
-			inputItem = input();
-
-			while (thread) {
-				const instruction = program[thread.pc];
-
-				switch (instruction.op) {
-					case 'accept':
-						// Only accept if we reached the end of the input
-						if (inputItem === null || inputItem === undefined) {
-							acceptingTraces.push(thread.trace);
-						} else {
-							failingTraces.push(thread.trace);
-						}
-						break;
-
-					case 'fail': {
-						// Is the failure conditional?
-						const func = instruction.func as FailFunc<O>;
-						const isFailingCondition = !func || func(options);
-						if (isFailingCondition) {
-							// Branch is forbidden, end the thread
-							failingTraces.push(thread.trace);
-							break;
-						}
-						// Condition failed, continue at next instruction
-						scheduler.addThread(0, thread.pc + 1, thread, thread.badness);
-						break;
-					}
-
-					case 'bad':
-						// Continue at next pc with added badness
-						scheduler.addThread(
-							0,
-							thread.pc + 1,
-							thread,
-							thread.badness + (instruction.data as number)
-						);
-						break;
-
-					case 'test': {
-						// Fail if out of input
-						if (inputItem === null || inputItem === undefined) {
-							failingTraces.push(thread.trace);
-							break;
-						}
-						// Fail if input does not match
-						const func = instruction.func as TestFunc<I, O>;
-						const isInputAccepted = func(inputItem, instruction.data, options);
-						if (!isInputAccepted) {
-							failingTraces.push(thread.trace);
-							break;
-						}
-						// Continue in next generation, preserving badness
-						scheduler.addThread(1, thread.pc + 1, thread, thread.badness);
-						break;
-					}
-
-					case 'jump': {
-						// Spawn new threads for all targets
-						for (
-							let iTarget = 0, nTargets = instruction.data.length;
-							iTarget < nTargets;
-							++iTarget
-						) {
-							scheduler.addThread(
-								0,
-								instruction.data[iTarget],
-								thread,
-								thread.badness
-							);
-						}
-						break;
-					}
-
-					case 'record': {
-						// Invoke record callback
-						const func = instruction.func as RecordFunc<O>;
-						const record = func(instruction.data, inputIndex, options);
-						if (record !== null && record !== undefined) {
-							thread.trace.records.push(record);
-						}
-						// Continue with next instruction
-						scheduler.addThread(0, thread.pc + 1, thread, thread.badness);
-						break;
-					}
-				}
+	/**
+	 * Determines whether the program accepts the given input stream. Unlike execute, this does not
+	 * create any Traces or run record instructions, which makes it a much cheaper way to test
+	 * membership for large inputs. Badness and the VM's pruning options are ignored.
+	 *
+	 * @param input   The input, in any of the forms accepted by execute
+	 * @param options Optional object passed to all instruction callbacks.
+	 *
+	 * @return Whether the input is accepted, i.e., the success of the Result that execute returns
+	 */
+	recognize(input: Input<I>, options?: O): boolean {
+		return recognize(this._program, input, options, this._vmOptions.subPrograms);
+	}
 
-				// Next thread
-				thread = scheduler.getNextThread();
+	/**
+	 * Executes the program in the VM with the given asynchronous input stream, such as a stream of
+	 * parser events. The input is read one item at a time, and reading stops once no Threads are
+	 * left to process further input.
+	 *
+	 * @param input            The input, as an AsyncIterable or an Iterator returning Promises for
+	 *                         its results. Any input accepted by execute can be used as well.
+	 * @param options          Optional object passed to all instruction callbacks.
+	 * @param executionOptions Optional limits for the execution, as for execute
+	 *
+	 * @return Promise for the Result of the execution, as returned by execute
+	 */
+	async executeAsync(
+		input: AsyncInput<I>,
+		options?: O,
+		executionOptions: ExecutionOptions = {}
+	): Promise<Result> {
+		// Other executions may run while waiting for input, so use a dedicated scheduler
+		const execution = executionOptions.firstMatch
+			? this._createRecognizer(options, executionOptions)
+			: new Execution(
+					this._program,
+					this._createScheduler(),
+					options,
+					false,
+					executionOptions,
+					(subProgramId, subProgramInput, subProgramOptions) =>
+						this._callSubProgram(subProgramId, subProgramInput, subProgramOptions)
+			  );
+		const read = createAsyncInputReader(input);
+		const deadline =
+			executionOptions.timeout === undefined
+				? Infinity
+				: Date.now() + executionOptions.timeout;
+		try {
+			while (execution.isRunning()) {
+				const next = await readUntilInterrupted(read, executionOptions.signal, deadline);
+				if (typeof next === 'string') {
+					execution.interrupt(next);
+					break;
+				}
+				execution.step(next.done, next.value);
+				if (next.done) {
+					break;
+				}
 			}
+		} finally {
+			read.close();
+		}
+		return execution.getResult();
+	}
 
-			// End current Generation and continue with the next. This compacts the Traces in the
-			// old Generation.
-			scheduler.nextGeneration();
-		} while (inputItem !== null && inputItem !== undefined);
+	/**
+	 * Starts a Session, which executes the program on input that is provided one item at a time.
+	 * The Session can be queried for the Result at any point, and can be forked to try different
+	 * continuations of the input.
+	 *
+	 * @param options          Optional object passed to all instruction callbacks.
+	 * @param executionOptions Optional limits for the execution, as for execute. Once a limit is
+	 *                         exceeded, further input is ignored.
+	 *
+	 * @return The new Session
+	 */
+	start(options?: O, executionOptions?: ExecutionOptions): Session<I, O> {
+		return new Session(
+			this._program,
+			() => this._createScheduler(),
+			options,
+			executionOptions,
+			(subProgramId, subProgramInput, subProgramOptions) =>
+				this._callSubProgram(subProgramId, subProgramInput, subProgramOptions)
+		);
+	}
 
-		// Release the scheduler
-		this._releaseScheduler();
+	/**
+	 * Searches the given input stream for the leftmost sequence of items accepted by the program.
+	 *
+	 * The match starting at the lowest input index is returned. If there are several, the one
+	 * with the lowest badness is preferred, followed by the longest one. Alternatives are otherwise
+	 * not ordered, so programs should use bad instructions to prefer shorter matches, e.g. for
+	 * non-greedy repetitions.
+	 *
+	 * @param input   The input, in any of the forms accepted by execute
+	 * @param options Optional object passed to all instruction callbacks.
+	 *
+	 * @return The match, or null if no part of the input is accepted by the program
+	 */
+	search(input: Input<I>, options?: O): SearchMatch | null {
+		// Matches are ordered by start and end index, so later ones with the same start are longer
+		return this.searchAll(input, options).reduce(
+			(best: SearchMatch | null, match) =>
+				best === null || (match.start === best.start && match.badness <= best.badness)
+					? match
+					: best,
+			null
+		);
+	}
 
-		return new Result(acceptingTraces, failingTraces);
+	/**
+	 * Searches the given input stream for all sequences of items accepted by the program. This
+	 * starts a new Thread at the first instruction for every input item, and accepts whenever an
+	 * accept instruction is reached, regardless of whether all input has been consumed.
+	 *
+	 * @param input   The input, in any of the forms accepted by execute
+	 * @param options Optional object passed to all instruction callbacks.
+	 *
+	 * @return All matches, ordered by start and then by end index
+	 */
+	searchAll(input: Input<I>, options?: O): SearchMatch[] {
+		const { acceptances } = this._run(input, options, true);
+		const matches: SearchMatch[] = [];
+		acceptances.forEach(({ trace, badness, inputIndex }) => {
+			trace.getStartGenerations().forEach(start => {
+				const isDuplicate = matches.some(
+					match => match.start === start && match.end === inputIndex
+				);
+				if (!isDuplicate) {
+					matches.push({ start, end: inputIndex, badness, trace });
+				}
+			});
+		});
+		return matches.sort((a, b) => a.start - b.start || a.end - b.end);
 	}
 }
@@ -0,0 +1,13 @@
+/**
+ * Throws for a node of an unknown type. Use this after handling every type of node, where the node
+ * has been narrowed down to never: adding a type without handling it is then a type error. At
+ * runtime, this can only be reached if the node was not created through the typed API.
+ *
+ * @param node The unhandled node, which should have a type property
+ * @param kind Describes the kind of node, for use in the error message
+ *
+ * @return Never returns
+ */
+export default function assertNever(node: never, kind: string): never {
+	throw new Error('Unknown ' + kind + ' type "' + (node as { type: string }).type + '"');
+}
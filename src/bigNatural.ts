@@ -0,0 +1,155 @@
+/**
+ * Minimal arbitrary-precision natural numbers, used for counting paths through traces. Numbers are
+ * represented as arrays of digits in base BASE, least significant digit first, without leading
+ * zeros. Zero is represented by the empty array.
+ */
+export type BigNatural = number[];
+
+const BASE = 10000000;
+const BASE_DIGITS = 7;
+
+export const ZERO: BigNatural = [];
+export const ONE: BigNatural = [1];
+
+/**
+ * @param value A non-negative safe integer
+ *
+ * @return The value as a BigNatural
+ */
+export function fromNumber(value: number): BigNatural {
+	if (value < 0 || value % 1 !== 0 || value > Number.MAX_SAFE_INTEGER) {
+		throw new Error('Expected a non-negative safe integer, got ' + value);
+	}
+	const digits: BigNatural = [];
+	while (value > 0) {
+		digits.push(value % BASE);
+		value = Math.floor(value / BASE);
+	}
+	return digits;
+}
+
+/**
+ * @param value A string of decimal digits
+ *
+ * @return The value as a BigNatural
+ */
+export function fromString(value: string): BigNatural {
+	if (!/^[0-9]+$/.test(value)) {
+		throw new Error('Expected a string of decimal digits, got "' + value + '"');
+	}
+	const digits: BigNatural = [];
+	for (let end = value.length; end > 0; end -= BASE_DIGITS) {
+		digits.push(parseInt(value.slice(Math.max(0, end - BASE_DIGITS), end), 10));
+	}
+	return trim(digits);
+}
+
+function trim(digits: BigNatural): BigNatural {
+	while (digits.length && digits[digits.length - 1] === 0) {
+		digits.pop();
+	}
+	return digits;
+}
+
+/**
+ * @return a + b
+ */
+export function add(a: BigNatural, b: BigNatural): BigNatural {
+	const sum: BigNatural = [];
+	let carry = 0;
+	for (let i = 0, l = Math.max(a.length, b.length); i < l; ++i) {
+		const digit = (a[i] || 0) + (b[i] || 0) + carry;
+		carry = digit >= BASE ? 1 : 0;
+		sum.push(digit - carry * BASE);
+	}
+	if (carry) {
+		sum.push(carry);
+	}
+	return sum;
+}
+
+/**
+ * @return a - b, requires a >= b
+ */
+export function subtract(a: BigNatural, b: BigNatural): BigNatural {
+	if (compare(a, b) < 0) {
+		throw new Error('Can not subtract a larger number');
+	}
+	const difference: BigNatural = [];
+	let borrow = 0;
+	for (let i = 0, l = a.length; i < l; ++i) {
+		let digit = a[i] - (b[i] || 0) - borrow;
+		borrow = digit < 0 ? 1 : 0;
+		digit += borrow * BASE;
+		difference.push(digit);
+	}
+	return trim(difference);
+}
+
+/**
+ * @return A negative number if a < b, 0 if a = b and a positive number if a > b
+ */
+export function compare(a: BigNatural, b: BigNatural): number {
+	if (a.length !== b.length) {
+		return a.length - b.length;
+	}
+	for (let i = a.length - 1; i >= 0; --i) {
+		if (a[i] !== b[i]) {
+			return a[i] - b[i];
+		}
+	}
+	return 0;
+}
+
+/**
+ * @return The value as a number, which is approximate if the value is not a safe integer
+ */
+export function toNumber(value: BigNatural): number {
+	let result = 0;
+	for (let i = value.length - 1; i >= 0; --i) {
+		result = result * BASE + value[i];
+	}
+	return result;
+}
+
+/**
+ * @return The value as a string of decimal digits
+ */
+export function toString(value: BigNatural): string {
+	if (!value.length) {
+		return '0';
+	}
+	let result = String(value[value.length - 1]);
+	for (let i = value.length - 2; i >= 0; --i) {
+		const digit = String(value[i]);
+		result += '0000000'.slice(digit.length) + digit;
+	}
+	return result;
+}
+
+/**
+ * Draws a uniformly random number in the range [0, limit).
+ *
+ * @param limit  Exclusive upper bound, should be positive
+ * @param random Function returning a uniformly random number in the range [0, 1)
+ *
+ * @return The random number
+ */
+export function randomBelow(limit: BigNatural, random: () => number): BigNatural {
+	if (!limit.length) {
+		throw new Error('Can not draw a random number below zero');
+	}
+	const mostSignificant = limit.length - 1;
+	for (;;) {
+		// Draw digits uniformly, limiting the most significant digit to reduce rejections
+		const digits: BigNatural = [];
+		for (let i = 0; i < mostSignificant; ++i) {
+			digits.push(Math.floor(random() * BASE));
+		}
+		digits.push(Math.floor(random() * (limit[mostSignificant] + 1)));
+		const candidate = trim(digits);
+		if (compare(candidate, limit) < 0) {
+			return candidate;
+		}
+	}
+}
@@ -0,0 +1,221 @@
+import Assembler from './Assembler';
+import assertNever from './assertNever';
+import VM, { VMOptions } from './VM';
+
+/**
+ * The name of a child element. Text children are represented by PCDATA.
+ */
+export type ElementName = string;
+
+/**
+ * Represents a text child in the input for a content model
+ */
+export const PCDATA: ElementName = '#PCDATA';
+
+/**
+ * The abstract syntax tree of a DTD-style content model:
+ * - 'empty' and 'any' represent the EMPTY and ANY content models;
+ * - 'pcdata' represents #PCDATA, allowing any number of text children;
+ * - 'element' allows a single child with the given name;
+ * - 'sequence' and 'choice' represent the "," and "|" connectors;
+ * - 'repetition' represents the "?", "*" and "+" occurrence indicators;
+ * - 'mixed' represents mixed content, i.e., (#PCDATA | name | ...)*, allowing text and the given
+ *   elements in any order.
+ */
+export type ContentModel =
+	| { type: 'empty' }
+	| { type: 'any' }
+	| { type: 'pcdata' }
+	| { type: 'element'; name: ElementName }
+	| { type: 'sequence'; items: ContentModel[] }
+	| { type: 'choice'; items: ContentModel[] }
+	| { type: 'repetition'; item: ContentModel; occurrence: '?' | '*' | '+' }
+	| { type: 'mixed'; names: ElementName[] };
+
+/**
+ * Options for compiling content models
+ */
+export interface ContentModelOptions {
+	/**
+	 * Allow each element in the content model to be missing from the input, at a badness of 1
+	 * each, and record the missing elements using record instructions. Each record contains the
+	 * name of the missing element and the index of the child before which it should be inserted.
+	 * Defaults to false.
+	 */
+	recordMissing?: boolean;
+}
+
+/**
+ * A child missing from the input, as recorded when compiling with the recordMissing option
+ */
+export interface MissingChild {
+	/**
+	 * The index of the child before which the missing child should be inserted, or the number of
+	 * children if it should be appended
+	 */
+	index: number;
+	name: ElementName;
+}
+
+function recordMissingChild(name: ElementName, inputIndex: number): MissingChild {
+	return { index: inputIndex, name };
+}
+
+function compileLoop<O>(assembler: Assembler<ElementName, O>, compileBody: () => void) {
+	const loop = assembler.label();
+	const body = assembler.label();
+	const end = assembler.label();
+	assembler.bind(loop);
+	assembler.jump([body, end]);
+	assembler.bind(body);
+	compileBody();
+	assembler.jump([loop]);
+	assembler.bind(end);
+}
+
+function compileElement<O>(
+	assembler: Assembler<ElementName, O>,
+	name: ElementName,
+	options: ContentModelOptions
+) {
+	if (!options.recordMissing) {
+		assembler.test(item => item === name, name);
+		return;
+	}
+	// Allow the element to be missing, preferring the branch where it is present
+	const present = assembler.label();
+	const missing = assembler.label();
+	const end = assembler.label();
+	assembler.jump([present, missing]);
+	assembler.bind(present);
+	assembler.test(item => item === name, name);
+	assembler.jump([end]);
+	assembler.bind(missing);
+	assembler.bad();
+	assembler.record(name, recordMissingChild);
+	assembler.bind(end);
+}
+
+function compileNode<O>(
+	assembler: Assembler<ElementName, O>,
+	model: ContentModel,
+	options: ContentModelOptions
+) {
+	switch (model.type) {
+		case 'empty':
+			return;
+
+		case 'any':
+			compileLoop(assembler, () => {
+				assembler.test(() => true, null);
+			});
+			return;
+
+		case 'pcdata':
+			// Text may be absent, or split into several children
+			compileLoop(assembler, () => {
+				assembler.test(item => item === PCDATA, PCDATA);
+			});
+			return;
+
+		case 'element':
+			compileElement(assembler, model.name, options);
+			return;
+
+		case 'sequence':
+			model.items.forEach(item => compileNode(assembler, item, options));
+			return;
+
+		case 'choice': {
+			// Fork to each of the alternatives, joining afterwards
+			const end = assembler.label();
+			const starts = model.items.map(() => assembler.label());
+			assembler.jump(starts);
+			model.items.forEach((item, i) => {
+				assembler.bind(starts[i]);
+				compileNode(assembler, item, options);
+				assembler.jump([end]);
+			});
+			assembler.bind(end);
+			return;
+		}
+
+		case 'repetition':
+			switch (model.occurrence) {
+				case '?': {
+					const present = assembler.label();
+					const end = assembler.label();
+					assembler.jump([present, end]);
+					assembler.bind(present);
+					compileNode(assembler, model.item, options);
+					assembler.bind(end);
+					return;
+				}
+
+				case '+':
+					compileNode(assembler, model.item, options);
+					compileLoop(assembler, () => compileNode(assembler, model.item, options));
+					return;
+
+				case '*':
+					compileLoop(assembler, () => compileNode(assembler, model.item, options));
+					return;
+			}
+			throw new Error('Unknown occurrence indicator "' + model.occurrence + '"');
+
+		case 'mixed': {
+			// Text and the given elements in any order, none of which is required
+			const names = model.names;
+			compileLoop(assembler, () => {
+				assembler.test(
+					item => item === PCDATA || names.indexOf(item) !== -1,
+					[PCDATA].concat(names)
+				);
+			});
+			return;
+		}
+	}
+	assertNever(model, 'content model');
+}
+
+/**
+ * Appends instructions matching the given content model to the program being assembled. The input
+ * should consist of the names of the children of an element, using PCDATA for text children. Test
+ * instructions receive the name of the element they match as their data, or an array of names for
+ * mixed content.
+ *
+ * Note that whitespace-only text is usually allowed between the children of elements without mixed
+ * content. Such text should be removed from the input.
+ *
+ * @param assembler The Assembler to use
+ * @param model     The content model to compile
+ * @param options   Options for the compilation
+ */
+export function compileContentModel<O>(
+	assembler: Assembler<ElementName, O>,
+	model: ContentModel,
+	options: ContentModelOptions = {}
+) {
+	compileNode(assembler, model, options);
+}
+
+/**
+ * Convenience helper function that creates a new VM matching the children of an element against
+ * the given content model.
+ *
+ * @param model     The content model to compile
+ * @param options   Options for the compilation
+ * @param vmOptions Additional options for the VM
+ *
+ * @return VM running the compiled program
+ */
+export function compileContentModelVM<O = void>(
+	model: ContentModel,
+	options?: ContentModelOptions,
+	vmOptions?: VMOptions<ElementName, O>
+): VM<ElementName, O> {
+	const assembler = new Assembler<ElementName, O>();
+	compileContentModel(assembler, model, options);
+	assembler.accept();
+	return new VM<ElementName, O>(assembler.finalize(), undefined, vmOptions);
+}
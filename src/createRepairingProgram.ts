@@ -0,0 +1,150 @@
+import Assembler from './Assembler';
+import { Instruction, TestFunc } from './Instruction';
+import Label from './Label';
+
+/**
+ * A single change to the input, as recorded by a repairing program. Indices refer to the original
+ * input: insertions go before the item at the index (or at the end if it equals the input length),
+ * deletions and replacements apply to the item at the index. The data of inserted and replacement
+ * items is that of the test instruction they should pass.
+ */
+export type RepairEdit =
+	| { type: 'insert'; index: number; data: any }
+	| { type: 'delete'; index: number }
+	| { type: 'replace'; index: number; data: any };
+
+/**
+ * The costs of each kind of edit, added to the badness of the paths that make them
+ */
+export interface RepairOptions {
+	/**
+	 * Cost of inserting an item expected by a test instruction. Defaults to 1.
+	 */
+	insertCost?: number;
+	/**
+	 * Cost of deleting an input item. Defaults to 1.
+	 */
+	deleteCost?: number;
+	/**
+	 * Cost of replacing an input item by one expected by a test instruction. Defaults to 1.
+	 */
+	replaceCost?: number;
+}
+
+function recordInsert(data: any, inputIndex: number): RepairEdit {
+	return { type: 'insert', index: inputIndex, data };
+}
+
+function recordDelete(_data: any, inputIndex: number): RepairEdit {
+	return { type: 'delete', index: inputIndex };
+}
+
+function recordReplace(data: any, inputIndex: number): RepairEdit {
+	return { type: 'replace', index: inputIndex, data };
+}
+
+function compileDeletions<I, O>(assembler: Assembler<I, O>, deleteCost: number) {
+	// Allow any number of input items to be deleted
+	const loop = assembler.label();
+	const body = assembler.label();
+	const end = assembler.label();
+	assembler.bind(loop);
+	assembler.jump([end, body]);
+	assembler.bind(body);
+	assembler.bad(deleteCost);
+	assembler.record(null, recordDelete);
+	assembler.skip();
+	assembler.jump([loop]);
+	assembler.bind(end);
+}
+
+/**
+ * Transforms a program into one that also accepts inputs that do not match, by repairing them. In
+ * the repairing program, each test instruction may instead insert the item it expects or replace
+ * the next input item by it, and input items may be deleted before each instruction consuming
+ * input and before accepting. Each of these edits adds its cost to the badness and records a
+ * RepairEdit, so the best accepting path of the result holds a minimal-cost edit script:
+ *
+ *     const result = new VM(createRepairingProgram(program)).execute(input);
+ *     const edits = result.getBestPath().records;
+ *
+ * Other instructions, such as testSequence and call, are not repaired. Records and badness from
+ * the original program are kept, and are combined with those of the edits.
+ *
+ * @param program The program to transform, as created by the Assembler
+ * @param options The costs of the edits
+ *
+ * @return The repairing program
+ */
+export default function createRepairingProgram<I, O = void>(
+	program: Instruction<I, O>[],
+	options: RepairOptions = {}
+): Instruction<I, O>[] {
+	const insertCost = options.insertCost === undefined ? 1 : options.insertCost;
+	const deleteCost = options.deleteCost === undefined ? 1 : options.deleteCost;
+	const replaceCost = options.replaceCost === undefined ? 1 : options.replaceCost;
+
+	const assembler = new Assembler<I, O>();
+	const starts = program.map(() => assembler.label());
+	// Jumps may target the end of the program, which ends the thread
+	let end: Label | null = null;
+	function getTargetLabel(target: number): Label {
+		if (target < program.length) {
+			return starts[target];
+		}
+		if (target > program.length) {
+			throw new Error('Jump target ' + target + ' is outside the program');
+		}
+		if (end === null) {
+			end = assembler.label();
+		}
+		return end;
+	}
+	program.forEach((instruction, pc) => {
+		assembler.bind(starts[pc]);
+		switch (instruction.op) {
+			case 'test':
+			case 'testSequence':
+			case 'skip':
+			case 'call':
+			case 'accept':
+				compileDeletions(assembler, deleteCost);
+				break;
+		}
+
+		switch (instruction.op) {
+			case 'jump':
+				assembler.jump((instruction.data as number[]).map(getTargetLabel));
+				return;
+
+			case 'test': {
+				// Match the item, insert it or replace the next input item by it
+				const match = assembler.label();
+				const insert = assembler.label();
+				const replace = assembler.label();
+				const next = assembler.label();
+				assembler.jump([match, insert, replace]);
+				assembler.bind(match);
+				assembler.test(instruction.func as TestFunc<I, O>, instruction.data);
+				assembler.jump([next]);
+				assembler.bind(insert);
+				assembler.bad(insertCost);
+				assembler.record(instruction.data, recordInsert);
+				assembler.jump([next]);
+				assembler.bind(replace);
+				assembler.bad(replaceCost);
+				assembler.record(instruction.data, recordReplace);
+				assembler.skip();
+				assembler.bind(next);
+				return;
+			}
+		}
+
+		assembler.program.push(instruction);
+	});
+	if (end !== null) {
+		assembler.bind(end);
+		assembler.fail();
+	}
+	return assembler.finalize();
+}
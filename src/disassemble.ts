@@ -0,0 +1,162 @@
+import { Instruction } from './Instruction';
+import Trace from './Trace';
+
+/**
+ * Callback used to describe the callback of a test, fail or record instruction. Should return a
+ * description, or null to fall back to the name of the callback function.
+ */
+export type DescribeFunc<I, O> = (instruction: Instruction<I, O>, pc: number) => string | null;
+
+/**
+ * Formats arbitrary data, such as an instruction's data or a record, as a short string.
+ *
+ * @param data The data to format
+ *
+ * @return The formatted data
+ */
+export function formatData(data: any): string {
+	if (typeof data === 'function') {
+		return '[function ' + (data.name || 'anonymous') + ']';
+	}
+	try {
+		const json = JSON.stringify(data);
+		return json === undefined ? String(data) : json;
+	} catch (_error) {
+		// Cyclic structures can not be serialized
+		return String(data);
+	}
+}
+
+/**
+ * Formats the operands of an instruction: jump targets, bad cost, skip count or the instruction's
+ * data. The data of testSequence instructions is preceded by their length.
+ *
+ * @param instruction The instruction to format the operands for
+ *
+ * @return The formatted operands, or an empty string if the instruction has none
+ */
+export function formatOperands<I, O>(instruction: Instruction<I, O>): string {
+	switch (instruction.op) {
+		case 'jump':
+			return Array.isArray(instruction.data)
+				? instruction.data.join(', ')
+				: formatData(instruction.data);
+
+		case 'accept':
+			return '';
+
+		case 'testSequence':
+			return (
+				String(instruction.length) +
+				(instruction.data === null || instruction.data === undefined
+					? ''
+					: ', ' + formatData(instruction.data))
+			);
+
+		default:
+			return instruction.data === null || instruction.data === undefined
+				? ''
+				: formatData(instruction.data);
+	}
+}
+
+/**
+ * Describes the callback of an instruction, such as a test, fail or record instruction.
+ *
+ * @param instruction The instruction to describe
+ * @param pc          The index of the instruction in its program
+ * @param describe    Optional callback to describe callbacks, defaults to using the function's name
+ *
+ * @return The description, or null if the instruction has no (named) callback
+ */
+export function describeCallback<I, O>(
+	instruction: Instruction<I, O>,
+	pc: number,
+	describe?: DescribeFunc<I, O>
+): string | null {
+	if (
+		instruction.op !== 'test' &&
+		instruction.op !== 'testSequence' &&
+		instruction.op !== 'call' &&
+		instruction.op !== 'lookahead' &&
+		instruction.op !== 'negativeLookahead' &&
+		instruction.op !== 'fail' &&
+		instruction.op !== 'record'
+	) {
+		return null;
+	}
+	const description = describe ? describe(instruction, pc) : null;
+	if (description === null && instruction.func) {
+		return instruction.func.name || null;
+	}
+	return description;
+}
+
+function getVisitedInstructions(trace: Trace): boolean[] {
+	const isVisited: boolean[] = [];
+	const seenTraces = new Set<Trace>();
+	const pending = [trace];
+	while (pending.length) {
+		const current = pending.pop() as Trace;
+		if (seenTraces.has(current)) {
+			continue;
+		}
+		seenTraces.add(current);
+		current.head.forEach(pc => {
+			isVisited[pc] = true;
+		});
+		pending.push.apply(pending, current.prefixes);
+	}
+	return isVisited;
+}
+
+function padStart(value: string, length: number): string {
+	while (value.length < length) {
+		value = ' ' + value;
+	}
+	return value;
+}
+
+function padEnd(value: string, length: number): string {
+	while (value.length < length) {
+		value += ' ';
+	}
+	return value;
+}
+
+/**
+ * Creates a human-readable listing of a program, one line per instruction. Each line contains the
+ * index of the instruction, its op and operands (jump targets, bad cost or the instruction's data)
+ * and, for test, fail and record instructions, a description of its callback.
+ *
+ * @param program  The program to disassemble
+ * @param trace    Optional Trace, instructions visited by any of its paths are marked with '*'
+ * @param describe Optional callback to describe callbacks, defaults to using the function's name
+ *
+ * @return The listing
+ */
+export default function disassemble<I, O = void>(
+	program: Instruction<I, O>[],
+	trace?: Trace | null,
+	describe?: DescribeFunc<I, O>
+): string {
+	const isVisited = trace ? getVisitedInstructions(trace) : [];
+	const indexWidth = String(Math.max(program.length - 1, 0)).length;
+	return program
+		.map((instruction, pc) => {
+			const description = describeCallback(instruction, pc, describe);
+			const operands = formatOperands(instruction);
+			const parts = [
+				(isVisited[pc] ? '* ' : '  ') + padStart(String(pc), indexWidth),
+				padEnd(instruction.op, 6)
+			];
+			if (operands) {
+				parts.push(operands);
+			}
+			if (description !== null) {
+				parts.push('; ' + description);
+			}
+			return parts.join(' ').replace(/\s+$/, '');
+		})
+		.join('\n');
+}
@@ -0,0 +1,127 @@
+import { describeCallback, formatData, formatOperands, DescribeFunc } from './disassemble';
+import { getConsumedLength, Instruction } from './Instruction';
+import Result from './Result';
+import Trace from './Trace';
+import { getSuccessors } from './validateProgram';
+
+function quote(value: string): string {
+	return (
+		'"' +
+		value
+			.replace(/\\/g, '\\\\')
+			.replace(/"/g, '\\"')
+			.replace(/\n/g, '\\n') +
+		'"'
+	);
+}
+
+function formatAttributes(attributes: { [name: string]: string }): string {
+	return (
+		'[' +
+		Object.keys(attributes)
+			.map(name => name + '=' + quote(attributes[name]))
+			.join(', ') +
+		']'
+	);
+}
+
+/**
+ * Exports a program as a control-flow graph in the Graphviz DOT format. Each instruction becomes a
+ * node, edges lead to the instructions at which execution may continue. Edges which consume input
+ * (i.e., those leaving test, testSequence and skip instructions) are dashed.
+ *
+ * @param program  The program to export
+ * @param describe Optional callback to describe callbacks, defaults to using the function's name
+ *
+ * @return The DOT source for the graph
+ */
+export function programToDot<I, O = void>(
+	program: Instruction<I, O>[],
+	describe?: DescribeFunc<I, O>
+): string {
+	const lines = ['digraph program {', '\tnode [shape=box];'];
+	program.forEach((instruction, pc) => {
+		let label = pc + ': ' + instruction.op;
+		const operands = formatOperands(instruction);
+		if (operands) {
+			label += ' ' + operands;
+		}
+		const description = describeCallback(instruction, pc, describe);
+		if (description !== null) {
+			label += '\n' + description;
+		}
+		const attributes: { [name: string]: string } = { label };
+		if (instruction.op === 'accept') {
+			attributes.peripheries = '2';
+		}
+		lines.push('\t' + pc + ' ' + formatAttributes(attributes) + ';');
+	});
+	program.forEach((instruction, pc) => {
+		getSuccessors(instruction, pc).forEach(target => {
+			if (target < 0 || target >= program.length) {
+				return;
+			}
+			lines.push(
+				'\t' +
+					pc +
+					' -> ' +
+					target +
+					(getConsumedLength(instruction) > 0 ? ' [style=dashed]' : '') +
+					';'
+			);
+		});
+	});
+	lines.push('}');
+	return lines.join('\n');
+}
+
+/**
+ * Exports the traces in a Result as a directed acyclic graph in the Graphviz DOT format. Each
+ * Trace becomes a node labeled with its head, records and badness. Edges lead from each prefix to
+ * the trace(s) it precedes. Accepting traces are drawn with a double border, failing traces are
+ * drawn in red.
+ *
+ * @param result The Result to export
+ *
+ * @return The DOT source for the graph
+ */
+export function resultToDot(result: Result): string {
+	const traces: Trace[] = [];
+	const indexByTrace = new Map<Trace, number>();
+	const pending = result.acceptingTraces.concat(result.failingTraces);
+	while (pending.length) {
+		const trace = pending.pop() as Trace;
+		if (indexByTrace.has(trace)) {
+			continue;
+		}
+		indexByTrace.set(trace, traces.length);
+		traces.push(trace);
+		pending.push.apply(pending, trace.prefixes);
+	}
+
+	const acceptingTraces = new Set(result.acceptingTraces);
+	const failingTraces = new Set(result.failingTraces);
+	const lines = ['digraph trace {', '\tnode [shape=box];'];
+	traces.forEach((trace, index) => {
+		let label = 'head: ' + trace.head.join(', ');
+		if (trace.records.length) {
+			label += '\nrecords: ' + trace.records.map(formatData).join(', ');
+		}
+		label += '\nbadness: ' + trace.badness;
+		const attributes: { [name: string]: string } = { label };
+		if (acceptingTraces.has(trace)) {
+			attributes.peripheries = '2';
+		}
+		if (failingTraces.has(trace)) {
+			attributes.color = 'red';
+		}
+		lines.push('\tt' + index + ' ' + formatAttributes(attributes) + ';');
+	});
+	traces.forEach((trace, index) => {
+		trace.prefixes.forEach(prefix => {
+			lines.push('\tt' + indexByTrace.get(prefix) + ' -> t' + index + ';');
+		});
+	});
+	lines.push('}');
+	return lines.join('\n');
+}
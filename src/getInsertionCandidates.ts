@@ -0,0 +1,146 @@
+import { ChildrenFunc, Instruction, SequenceTestFunc, TestFunc } from './Instruction';
+import Trace from './Trace';
+import VM, { VMOptions } from './VM';
+
+/**
+ * A value that may be inserted into the input, as determined by getInsertionCandidates
+ */
+export interface InsertionCandidate {
+	/**
+	 * The data of the test instructions that would consume the inserted item
+	 */
+	data: any;
+	/**
+	 * Whether the input is accepted after inserting the item. If false, the input is still a viable
+	 * prefix, i.e., more items have to be added to its end before it is accepted.
+	 */
+	isAccepted: boolean;
+	/**
+	 * The lowest total badness over the paths accepting or continuing the input after insertion
+	 */
+	badness: number;
+}
+
+// Stands in for the inserted item, which is only known by the data of the tests it should pass
+const INSERTED_ITEM = {};
+
+function getLowestBadness(traces: Trace[]): number {
+	return traces.reduce(
+		(lowest, trace) => Math.min(lowest, trace.getBestPaths(1)[0].badness),
+		Infinity
+	);
+}
+
+/**
+ * Determines which items may be inserted at the given position in the input, such that the input
+ * is accepted by the program or can still be completed by adding items to its end. Items are
+ * described by the data of the test instructions that could consume them, so this works best if
+ * each test instruction has data identifying the item it matches, such as an element name.
+ *
+ * Only test instructions can consume the inserted item. Other instructions that would consume it
+ * fail, except for lookahead instructions, which match it if their data equals that of the
+ * candidate, and skip instructions, which skip over it.
+ *
+ * @param program   The program to run, as created by the Assembler
+ * @param input     The current input
+ * @param index     The position at which to insert, from 0 to the length of the input
+ * @param options   Optional object passed to all instruction callbacks
+ * @param vmOptions Additional options for the VM
+ *
+ * @return The candidates, ordered by increasing badness, listing accepted candidates first if
+ *         their badness is equal
+ */
+export default function getInsertionCandidates<I, O = void>(
+	program: Instruction<I, O>[],
+	input: I[],
+	index: number,
+	options?: O,
+	vmOptions?: VMOptions<I, O>
+): InsertionCandidate[] {
+	if (index % 1 !== 0 || index < 0 || index > input.length) {
+		throw new Error('The insertion index should be an integer between 0 and the input length');
+	}
+
+	// Run a copy of the program, in which the callbacks handle the inserted item. The data of the
+	// candidate currently being tried determines which test instructions it passes.
+	let candidateData: any = undefined;
+	function wrapCallback(instruction: Instruction<I, O>): Instruction<I, O>['func'] {
+		switch (instruction.op) {
+			case 'test':
+			case 'lookahead':
+			case 'negativeLookahead': {
+				const func = instruction.func as TestFunc<I, O>;
+				return (inputItem: I, data: any, options?: O) =>
+					inputItem === INSERTED_ITEM
+						? data === candidateData
+						: func(inputItem, data, options);
+			}
+
+			case 'testSequence': {
+				const func = instruction.func as SequenceTestFunc<I, O>;
+				return (inputItems: I[], data: any, options?: O) =>
+					inputItems.indexOf(INSERTED_ITEM as I) === -1 &&
+					func(inputItems, data, options);
+			}
+
+			case 'call': {
+				const func = instruction.func as ChildrenFunc<I, O>;
+				return (inputItem: I, data: any, options?: O) =>
+					inputItem === INSERTED_ITEM ? null : func(inputItem, data, options);
+			}
+		}
+		return instruction.func;
+	}
+	const wrappedProgram = program.map(instruction => ({
+		op: instruction.op,
+		func: wrapCallback(instruction),
+		data: instruction.data,
+		length: instruction.length
+	}));
+	const vm = new VM<I, O>(wrappedProgram, undefined, vmOptions);
+
+	// The candidates are the tests the threads are waiting on at the insertion point
+	const prefixResult = vm.execute(input.slice(0, index), options);
+	const candidateDataValues: any[] = [];
+	prefixResult.pendingTests.forEach(pendingTest => {
+		if (
+			program[pendingTest.pc].op === 'test' &&
+			candidateDataValues.indexOf(pendingTest.data) === -1
+		) {
+			candidateDataValues.push(pendingTest.data);
+		}
+	});
+
+	const inputWithInsertion = input
+		.slice(0, index)
+		.concat([INSERTED_ITEM as I], input.slice(index));
+	const candidates: InsertionCandidate[] = [];
+	candidateDataValues.forEach(data => {
+		candidateData = data;
+		const result = vm.execute(inputWithInsertion, options);
+		if (result.success) {
+			candidates.push({
+				data,
+				isAccepted: true,
+				badness: getLowestBadness(result.acceptingTraces)
+			});
+		} else if (result.isViablePrefix) {
+			candidates.push({
+				data,
+				isAccepted: false,
+				badness: getLowestBadness(result.pendingTraces)
+			});
+		}
+	});
+
+	// Sort by badness, then acceptance, preserving the order in which candidates were found
+	return candidates
+		.map((candidate, i) => ({ candidate, i }))
+		.sort(
+			(a, b) =>
+				a.candidate.badness - b.candidate.badness ||
+				Number(b.candidate.isAccepted) - Number(a.candidate.isAccepted) ||
+				a.i - b.i
+		)
+		.map(({ candidate }) => candidate);
+}
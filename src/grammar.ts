@@ -0,0 +1,494 @@
+import Assembler from './Assembler';
+import assertNever from './assertNever';
+import VM, { VMOptions } from './VM';
+
+/**
+ * A node in the expression of a grammar rule, as produced by parseGrammar. References to names
+ * which are defined as rules in the grammar are represented as 'rule' nodes, all other names and
+ * quoted strings are 'terminal' nodes.
+ */
+export type GrammarNode =
+	| { type: 'terminal'; name: string }
+	| { type: 'rule'; name: string }
+	| { type: 'sequence'; items: GrammarNode[] }
+	| { type: 'choice'; alternatives: GrammarNode[] }
+	| { type: 'repetition'; item: GrammarNode; occurrence: '?' | '*' | '+' };
+
+/**
+ * A named rule in a grammar
+ */
+export type GrammarRule = { name: string; expression: GrammarNode };
+
+/**
+ * A grammar, as produced by parseGrammar. The first rule is the default start rule.
+ */
+export type Grammar = { rules: GrammarRule[] };
+
+/**
+ * Predicates determining whether an input item matches each terminal, by terminal name
+ */
+export type GrammarTerminals<I> = { [name: string]: (inputItem: I) => boolean };
+
+/**
+ * The data passed to test instructions compiled from a grammar, identifying the terminal as well as
+ * the names of the rules it is part of, from the start rule inwards
+ */
+export type GrammarTestData = { terminal: string; rules: string[] };
+
+/**
+ * Records made when compiling a grammar with the recordRules option. Each rule produces a 'start'
+ * record before matching and an 'end' record after matching, holding the index of the first input
+ * item after that point.
+ */
+export type GrammarRecord = { type: 'start' | 'end'; rule: string; index: number };
+
+/**
+ * Options for compiling grammars
+ */
+export interface GrammarOptions {
+	/**
+	 * The name of the rule to match, defaults to the first rule in the grammar
+	 */
+	startRule?: string;
+	/**
+	 * Record the start and end of each rule using record instructions, allowing the structure of
+	 * the match to be reconstructed from the records along an accepting path. Defaults to false.
+	 */
+	recordRules?: boolean;
+}
+
+/**
+ * The state of parsing a single grammar
+ */
+type ParserState = { source: string; position: number; rule: string | null };
+
+function fail(state: ParserState, message: string): never {
+	throw new Error(
+		'Invalid grammar: ' +
+			message +
+			(state.rule === null ? '' : ' in rule "' + state.rule + '"') +
+			' at position ' +
+			state.position
+	);
+}
+
+const WHITESPACE = /\s/;
+const IDENTIFIER = /^[A-Za-z_][A-Za-z0-9_-]*/;
+
+function peek(state: ParserState): string | null {
+	while (state.position < state.source.length && WHITESPACE.test(state.source[state.position])) {
+		++state.position;
+	}
+	return state.position < state.source.length ? state.source[state.position] : null;
+}
+
+function parseIdentifier(state: ParserState): string | null {
+	peek(state);
+	const match = IDENTIFIER.exec(state.source.substr(state.position));
+	if (match === null) {
+		return null;
+	}
+	state.position += match[0].length;
+	return match[0];
+}
+
+function consume(state: ParserState, token: string) {
+	if (state.source.substr(state.position, token.length) !== token) {
+		fail(state, 'Expected "' + token + '"');
+	}
+	state.position += token.length;
+}
+
+function parseQuoted(state: ParserState): string {
+	const quote = state.source[state.position];
+	const end = state.source.indexOf(quote, state.position + 1);
+	if (end === -1) {
+		return fail(state, 'Unterminated string');
+	}
+	const value = state.source.substring(state.position + 1, end);
+	if (!value.length) {
+		return fail(state, 'Empty string');
+	}
+	state.position = end + 1;
+	return value;
+}
+
+function parseAtom(state: ParserState): GrammarNode {
+	const next = peek(state);
+	if (next === '(') {
+		++state.position;
+		const node = parseChoice(state);
+		if (peek(state) !== ')') {
+			return fail(state, 'Expected ")"');
+		}
+		++state.position;
+		return node;
+	}
+	if (next === '"' || next === "'") {
+		return { type: 'terminal', name: parseQuoted(state) };
+	}
+	const name = parseIdentifier(state);
+	if (name === null) {
+		return fail(
+			state,
+			next === null ? 'Unexpected end of grammar' : 'Unexpected "' + next + '"'
+		);
+	}
+	// Names which are not defined as rules are resolved to terminals once all rules are known
+	return { type: 'rule', name };
+}
+
+function parseTerm(state: ParserState): GrammarNode {
+	const item = parseAtom(state);
+	const next = peek(state);
+	if (next !== '?' && next !== '*' && next !== '+') {
+		return item;
+	}
+	++state.position;
+	const following = peek(state);
+	if (following === '?' || following === '*' || following === '+') {
+		return fail(state, 'Nothing to repeat');
+	}
+	return { type: 'repetition', item, occurrence: next };
+}
+
+function parseSequence(state: ParserState): GrammarNode {
+	const items: GrammarNode[] = [];
+	for (
+		let next = peek(state);
+		next !== null && next !== '|' && next !== ')' && next !== ';';
+		next = peek(state)
+	) {
+		items.push(parseTerm(state));
+		// Items may optionally be separated by commas
+		if (peek(state) === ',') {
+			++state.position;
+		}
+	}
+	return items.length === 1 ? items[0] : { type: 'sequence', items };
+}
+
+function parseChoice(state: ParserState): GrammarNode {
+	const alternatives = [parseSequence(state)];
+	while (peek(state) === '|') {
+		++state.position;
+		alternatives.push(parseSequence(state));
+	}
+	return alternatives.length === 1 ? alternatives[0] : { type: 'choice', alternatives };
+}
+
+function parseRule(state: ParserState): GrammarRule {
+	const name = parseIdentifier(state);
+	if (name === null) {
+		return fail(state, 'Expected a rule name');
+	}
+	state.rule = name;
+	peek(state);
+	if (state.source.substr(state.position, 3) === '::=') {
+		state.position += 3;
+	} else {
+		consume(state, '=');
+	}
+	const expression = parseChoice(state);
+	peek(state);
+	consume(state, ';');
+	state.rule = null;
+	return { name, expression };
+}
+
+function resolveReferences(node: GrammarNode, ruleNames: string[]): GrammarNode {
+	switch (node.type) {
+		case 'terminal':
+			return node;
+
+		case 'rule':
+			return ruleNames.indexOf(node.name) === -1
+				? { type: 'terminal', name: node.name }
+				: node;
+
+		case 'sequence':
+			return {
+				type: 'sequence',
+				items: node.items.map(item => resolveReferences(item, ruleNames))
+			};
+
+		case 'choice':
+			return {
+				type: 'choice',
+				alternatives: node.alternatives.map(item => resolveReferences(item, ruleNames))
+			};
+
+		case 'repetition':
+			return {
+				type: 'repetition',
+				item: resolveReferences(node.item, ruleNames),
+				occurrence: node.occurrence
+			};
+	}
+	return assertNever(node, 'grammar node');
+}
+
+function getReferencedRules(node: GrammarNode, ruleNames: string[] = []): string[] {
+	switch (node.type) {
+		case 'rule':
+			if (ruleNames.indexOf(node.name) === -1) {
+				ruleNames.push(node.name);
+			}
+			break;
+
+		case 'sequence':
+			node.items.forEach(item => getReferencedRules(item, ruleNames));
+			break;
+
+		case 'choice':
+			node.alternatives.forEach(alternative => getReferencedRules(alternative, ruleNames));
+			break;
+
+		case 'repetition':
+			getReferencedRules(node.item, ruleNames);
+			break;
+	}
+	return ruleNames;
+}
+
+/**
+ * Checks that all referenced rules exist and that none of the rules is recursive.
+ */
+function checkRuleReferences(grammar: Grammar) {
+	const rulesByName: { [name: string]: GrammarRule } = Object.create(null);
+	grammar.rules.forEach(rule => {
+		rulesByName[rule.name] = rule;
+	});
+	const checkedRules: string[] = [];
+	function check(name: string, path: string[]) {
+		if (path.indexOf(name) !== -1) {
+			throw new Error(
+				'Invalid grammar: Rule "' +
+					name +
+					'" is recursive (' +
+					path
+						.slice(path.indexOf(name))
+						.concat([name])
+						.join(' > ') +
+					')'
+			);
+		}
+		if (checkedRules.indexOf(name) !== -1) {
+			return;
+		}
+		if (!(name in rulesByName)) {
+			throw new Error('Invalid grammar: Unknown rule "' + name + '"');
+		}
+		const innerPath = path.concat([name]);
+		getReferencedRules(rulesByName[name].expression).forEach(referencedName =>
+			check(referencedName, innerPath)
+		);
+		checkedRules.push(name);
+	}
+	grammar.rules.forEach(rule => check(rule.name, []));
+}
+
+/**
+ * Parses a grammar written in an EBNF-like notation. A grammar consists of rules of the form
+ * name = expression; (or name ::= expression;). Expressions consist of names, which refer to
+ * either other rules or to terminals, quoted strings, which always refer to terminals, sequences
+ * (written by juxtaposition, optionally separated by commas), alternatives separated by |, the
+ * occurrence indicators ?, * and +, and grouping using parentheses. Rules may not be recursive.
+ *
+ * @param source The text of the grammar
+ *
+ * @return The parsed grammar
+ */
+export function parseGrammar(source: string): Grammar {
+	const state: ParserState = { source, position: 0, rule: null };
+	const rules: GrammarRule[] = [];
+	while (peek(state) !== null) {
+		const start = state.position;
+		const rule = parseRule(state);
+		if (rules.some(existingRule => existingRule.name === rule.name)) {
+			state.position = start;
+			fail(state, 'Duplicate rule "' + rule.name + '"');
+		}
+		rules.push(rule);
+	}
+	if (!rules.length) {
+		fail(state, 'Expected at least one rule');
+	}
+
+	const ruleNames = rules.map(rule => rule.name);
+	const grammar = {
+		rules: rules.map(rule => ({
+			name: rule.name,
+			expression: resolveReferences(rule.expression, ruleNames)
+		}))
+	};
+	checkRuleReferences(grammar);
+	return grammar;
+}
+
+function compileNode<I, O>(
+	assembler: Assembler<I, O>,
+	node: GrammarNode,
+	rulesByName: { [name: string]: GrammarRule },
+	terminals: GrammarTerminals<I>,
+	rulePath: string[],
+	options: GrammarOptions
+) {
+	switch (node.type) {
+		case 'terminal': {
+			if (!Object.prototype.hasOwnProperty.call(terminals, node.name)) {
+				throw new Error(
+					'No predicate for terminal "' +
+						node.name +
+						'", used in rule "' +
+						rulePath[rulePath.length - 1] +
+						'"'
+				);
+			}
+			const predicate = terminals[node.name];
+			const data: GrammarTestData = { terminal: node.name, rules: rulePath };
+			assembler.test(item => predicate(item), data);
+			return;
+		}
+
+		case 'rule':
+			compileRule(
+				assembler,
+				rulesByName[node.name],
+				rulesByName,
+				terminals,
+				rulePath,
+				options
+			);
+			return;
+
+		case 'sequence':
+			node.items.forEach(item =>
+				compileNode(assembler, item, rulesByName, terminals, rulePath, options)
+			);
+			return;
+
+		case 'choice': {
+			// Fork to each of the alternatives, joining afterwards
+			const end = assembler.label();
+			const starts = node.alternatives.map(() => assembler.label());
+			assembler.jump(starts);
+			node.alternatives.forEach((alternative, i) => {
+				assembler.bind(starts[i]);
+				compileNode(assembler, alternative, rulesByName, terminals, rulePath, options);
+				if (i < node.alternatives.length - 1) {
+					assembler.jump([end]);
+				}
+			});
+			assembler.bind(end);
+			return;
+		}
+
+		case 'repetition': {
+			if (node.occurrence === '+') {
+				compileNode(assembler, node.item, rulesByName, terminals, rulePath, options);
+			}
+			const end = assembler.label();
+			const body = assembler.label();
+			if (node.occurrence === '?') {
+				assembler.jump([body, end]);
+				assembler.bind(body);
+				compileNode(assembler, node.item, rulesByName, terminals, rulePath, options);
+			} else {
+				// Loop for any number of additional repetitions
+				const loop = assembler.label();
+				assembler.bind(loop);
+				assembler.jump([body, end]);
+				assembler.bind(body);
+				compileNode(assembler, node.item, rulesByName, terminals, rulePath, options);
+				assembler.jump([loop]);
+			}
+			assembler.bind(end);
+			return;
+		}
+	}
+	assertNever(node, 'grammar node');
+}
+
+function recordRule(type: 'start' | 'end') {
+	return (rule: string, inputIndex: number): GrammarRecord => ({ type, rule, index: inputIndex });
+}
+const recordRuleStart = recordRule('start');
+const recordRuleEnd = recordRule('end');
+
+function compileRule<I, O>(
+	assembler: Assembler<I, O>,
+	rule: GrammarRule,
+	rulesByName: { [name: string]: GrammarRule },
+	terminals: GrammarTerminals<I>,
+	rulePath: string[],
+	options: GrammarOptions
+) {
+	// As rules are not recursive, each reference can be compiled by inlining the rule
+	const innerRulePath = rulePath.concat([rule.name]);
+	if (options.recordRules) {
+		assembler.record(rule.name, recordRuleStart);
+	}
+	compileNode(assembler, rule.expression, rulesByName, terminals, innerRulePath, options);
+	if (options.recordRules) {
+		assembler.record(rule.name, recordRuleEnd);
+	}
+}
+
+/**
+ * Appends instructions matching the given grammar to the program being assembled. Test
+ * instructions receive GrammarTestData as their data, identifying both the terminal and the rules
+ * containing it, which can be used to explain why the input does not match.
+ *
+ * @param assembler The Assembler to use
+ * @param grammar   The grammar, either as a string in the notation described for parseGrammar or
+ *                  as parsed by it
+ * @param terminals Predicates for each terminal used in the grammar
+ * @param options   Options for the compilation
+ */
+export function compileGrammar<I, O>(
+	assembler: Assembler<I, O>,
+	grammar: string | Grammar,
+	terminals: GrammarTerminals<I>,
+	options: GrammarOptions = {}
+) {
+	let parsedGrammar: Grammar;
+	if (typeof grammar === 'string') {
+		parsedGrammar = parseGrammar(grammar);
+	} else {
+		checkRuleReferences(grammar);
+		parsedGrammar = grammar;
+	}
+	const rulesByName: { [name: string]: GrammarRule } = Object.create(null);
+	parsedGrammar.rules.forEach(rule => {
+		rulesByName[rule.name] = rule;
+	});
+	const startRule =
+		options.startRule === undefined ? parsedGrammar.rules[0] : rulesByName[options.startRule];
+	if (startRule === undefined) {
+		throw new Error('Unknown start rule "' + options.startRule + '"');
+	}
+	compileRule(assembler, startRule, rulesByName, terminals, [], options);
+}
+
+/**
+ * Convenience helper function that creates a new VM matching the given grammar.
+ *
+ * @param grammar   The grammar, as for compileGrammar
+ * @param terminals Predicates for each terminal used in the grammar
+ * @param options   Options for the compilation
+ * @param vmOptions Additional options for the VM
+ *
+ * @return VM running the compiled program
+ */
+export function compileGrammarVM<I, O = void>(
+	grammar: string | Grammar,
+	terminals: GrammarTerminals<I>,
+	options?: GrammarOptions,
+	vmOptions?: VMOptions<I, O>
+): VM<I, O> {
+	const assembler = new Assembler<I, O>();
+	compileGrammar(assembler, grammar, terminals, options);
+	assembler.accept();
+	return new VM<I, O>(assembler.finalize(), undefined, vmOptions);
+}
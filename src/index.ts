@@ -1,9 +1,68 @@
 import Assembler from './Assembler';
+import { compileContentModel, compileContentModelVM } from './contentModel';
+import ContentModelValidator from './ContentModelValidator';
+import createRepairingProgram from './createRepairingProgram';
+import disassemble from './disassemble';
+import { programToDot, resultToDot } from './dot';
+import getInsertionCandidates from './getInsertionCandidates';
+import { compileGrammar, compileGrammarVM, parseGrammar } from './grammar';
+import recognize from './recognize';
+import { compileRegex, compileRegexVM, parseRegex } from './regex';
 import Thread from './Thread';
-import VM from './VM';
+import VM, { VMOptions } from './VM';
+import validateProgram from './validateProgram';
 
 export { default as Assembler } from './Assembler';
-export { default as VM } from './VM';
+export {
+	compileContentModel,
+	compileContentModelVM,
+	ContentModel,
+	ContentModelOptions,
+	ElementName,
+	MissingChild,
+	PCDATA
+} from './contentModel';
+export {
+	default as ContentModelValidator,
+	ChildrenValidationResult
+} from './ContentModelValidator';
+export {
+	default as createRepairingProgram,
+	RepairEdit,
+	RepairOptions
+} from './createRepairingProgram';
+export { default as disassemble, DescribeFunc } from './disassemble';
+export { programToDot, resultToDot } from './dot';
+export { ExecutionOptions } from './Execution';
+export { default as getInsertionCandidates, InsertionCandidate } from './getInsertionCandidates';
+export {
+	compileGrammar,
+	compileGrammarVM,
+	parseGrammar,
+	Grammar,
+	GrammarNode,
+	GrammarOptions,
+	GrammarRecord,
+	GrammarRule,
+	GrammarTerminals,
+	GrammarTestData
+} from './grammar';
+export { AsyncInput, Input } from './input';
+export { default as Label } from './Label';
+export { default as recognize } from './recognize';
+export {
+	compileRegex,
+	compileRegexVM,
+	parseRegex,
+	CharacterRange,
+	RegexNode,
+	RegexOptions
+} from './regex';
+export { default as Result, ExecutionLimit, PendingTest } from './Result';
+export { default as Session, SessionSnapshot } from './Session';
+export { default as Trace, PathOptions, TracePath } from './Trace';
+export { default as VM, SearchMatch, VMOptions } from './VM';
+export { default as validateProgram, Diagnostic, formatDiagnostics } from './validateProgram';
 
 /**
  * Convenience helper function that creates a new VM using the specified callback for compilation.
@@ -12,16 +71,38 @@ export { default as VM } from './VM';
  *                      parameter.
  * @param oldThreadList Array used for recycling Thread objects. An existing array can be passed in
  *                      to share recycled threads between VMs.
+ * @param vmOptions     Additional options for the VM, such as whether to validate the program
  *
  * @return VM running the compiled program
  */
 export function compileVM<I, O = void>(
 	compile: (assembler: Assembler<I, O>) => void,
-	oldThreadList?: Thread[]
+	oldThreadList?: Thread[],
+	vmOptions?: VMOptions<I, O>
 ): VM<I, O> {
 	const assembler = new Assembler<I, O>();
 	compile(assembler);
-	return new VM<I, O>(assembler.program, oldThreadList);
+	return new VM<I, O>(assembler.finalize(), oldThreadList, vmOptions);
 }
 
-export default { Assembler, VM, compileVM };
+export default {
+	Assembler,
+	VM,
+	compileVM,
+	compileContentModel,
+	compileContentModelVM,
+	ContentModelValidator,
+	compileGrammar,
+	compileGrammarVM,
+	compileRegex,
+	compileRegexVM,
+	createRepairingProgram,
+	disassemble,
+	getInsertionCandidates,
+	parseGrammar,
+	parseRegex,
+	programToDot,
+	recognize,
+	resultToDot,
+	validateProgram
+};
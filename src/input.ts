@@ -0,0 +1,145 @@
+/**
+ * Input for a VM. This can be any of:
+ * - an array or other Iterable, which may contain any value, including null and undefined;
+ * - an Iterator, signalling the end of the input through its done property;
+ * - a function returning the next input item when called, or null or undefined when no further
+ *   input is available.
+ */
+export type Input<I> = Iterable<I> | Iterator<I> | (() => I | null | undefined);
+
+/**
+ * Input for an asynchronous execution of a VM. Synchronous Input is accepted as well.
+ */
+export type AsyncInput<I> = AsyncIterable<I> | AsyncIterator<I> | Input<I>;
+
+/**
+ * Returns the next input item, or a result with done set to true when the input has ended.
+ */
+export type InputReader<I> = {
+	(): IteratorResult<I>;
+	/**
+	 * Stops reading. If the input is an iterator that has not ended, this calls its return method
+	 * so it can release any resources it holds, as a for...of loop exited early would.
+	 */
+	close(): void;
+};
+
+/**
+ * Returns a Promise for the next input item, or for a result with done set to true when the input
+ * has ended.
+ */
+export type AsyncInputReader<I> = {
+	(): Promise<IteratorResult<I>>;
+	/**
+	 * Stops reading. If the input is an iterator that has not ended, this calls its return method
+	 * so it can release any resources it holds. This does not wait for an asynchronous iterator to
+	 * finish closing, as it may still be busy producing an item that is no longer needed, and
+	 * ignores any errors it reports while closing.
+	 */
+	close(): void;
+};
+
+const END_OF_INPUT: IteratorResult<any> = { done: true, value: undefined };
+
+function isFunction<I>(input: AsyncInput<I>): input is () => I | null | undefined {
+	return typeof input === 'function';
+}
+
+function isIterable<I>(input: AsyncInput<I>): input is Iterable<I> {
+	return typeof (input as Iterable<I>)[Symbol.iterator] === 'function';
+}
+
+function noop() {}
+
+function isAsyncIterable<I>(input: AsyncInput<I>): input is AsyncIterable<I> {
+	// Symbol.asyncIterator is not available in all environments
+	return (
+		typeof Symbol.asyncIterator === 'symbol' &&
+		typeof (input as AsyncIterable<I>)[Symbol.asyncIterator] === 'function'
+	);
+}
+
+/**
+ * Creates a function reading items from the given input.
+ *
+ * @param input The input to read
+ *
+ * @return Function returning the next item on each call
+ */
+export function createInputReader<I>(input: Input<I>): InputReader<I> {
+	if (isFunction(input)) {
+		// Callbacks signal the end of the input using null or undefined
+		return Object.assign(
+			(): IteratorResult<I> => {
+				const value = input();
+				return value === null || value === undefined
+					? END_OF_INPUT
+					: { done: false, value };
+			},
+			{ close: noop }
+		);
+	}
+
+	if (Array.isArray(input)) {
+		// Avoid the overhead of the iteration protocol for arrays
+		let index = 0;
+		return Object.assign(
+			(): IteratorResult<I> =>
+				index < input.length ? { done: false, value: input[index++] } : END_OF_INPUT,
+			{ close: noop }
+		);
+	}
+
+	const iterator = isIterable(input) ? input[Symbol.iterator]() : input;
+	let isDone = false;
+	return Object.assign(
+		(): IteratorResult<I> => {
+			const next = iterator.next();
+			isDone = next.done;
+			return next;
+		},
+		{
+			close: () => {
+				if (!isDone && iterator.return) {
+					isDone = true;
+					iterator.return();
+				}
+			}
+		}
+	);
+}
+
+/**
+ * Creates a function reading items from the given asynchronous or synchronous input.
+ *
+ * @param input The input to read
+ *
+ * @return Function returning a Promise for the next item on each call
+ */
+export function createAsyncInputReader<I>(input: AsyncInput<I>): AsyncInputReader<I> {
+	if (isFunction(input) || (isIterable(input) && !isAsyncIterable(input))) {
+		const read = createInputReader(input);
+		return Object.assign(() => Promise.resolve(read()), { close: read.close });
+	}
+
+	// An asynchronous iterator, or an iterator which may return Promises for its results
+	const iterator: AsyncIterator<I> | Iterator<I> = isAsyncIterable(input)
+		? input[Symbol.asyncIterator]()
+		: (input as AsyncIterator<I> | Iterator<I>);
+	let isDone = false;
+	return Object.assign(
+		(): Promise<IteratorResult<I>> =>
+			Promise.resolve(iterator.next()).then(next => {
+				isDone = next.done;
+				return next;
+			}),
+		{
+			close: () => {
+				if (!isDone && iterator.return) {
+					isDone = true;
+					new Promise(resolve => resolve(iterator.return!())).catch(noop);
+				}
+			}
+		}
+	);
+}
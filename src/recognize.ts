@@ -0,0 +1,53 @@
+import { createInputReader, Input } from './input';
+import { Instruction } from './Instruction';
+import Recognizer from './Recognizer';
+
+/**
+ * Determines whether a program accepts the given input, without recording how it does so. As no
+ * Traces are created, this is considerably cheaper than executing the program in a VM, while
+ * accepting the same inputs. Record instructions are skipped, and badness is ignored.
+ *
+ * @param program     The program to run, as created by the Assembler
+ * @param input       The input, in any of the forms accepted by VM#execute
+ * @param options     Optional object passed to all instruction callbacks
+ * @param subPrograms Programs that can be run by call instructions, by id
+ *
+ * @return Whether the program accepts the input
+ */
+export default function recognize<I, O = void>(
+	program: Instruction<I, O>[],
+	input: Input<I>,
+	options?: O,
+	subPrograms: { [subProgramId: string]: Instruction<I, O>[] } = {}
+): boolean {
+	const recognizer = new Recognizer(
+		program,
+		options,
+		{},
+		(subProgramId, subProgramInput, subProgramOptions) => {
+			if (!Object.prototype.hasOwnProperty.call(subPrograms, subProgramId)) {
+				throw new Error('Unknown sub-program "' + subProgramId + '"');
+			}
+			return recognize(
+				subPrograms[subProgramId],
+				subProgramInput,
+				subProgramOptions,
+				subPrograms
+			);
+		},
+		false
+	);
+	const read = createInputReader(input);
+	try {
+		while (recognizer.isRunning()) {
+			const next = read();
+			recognizer.step(next.done, next.value);
+			if (next.done) {
+				break;
+			}
+		}
+	} finally {
+		read.close();
+	}
+	return recognizer.isAccepted;
+}
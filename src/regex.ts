@@ -0,0 +1,605 @@
+import Assembler from './Assembler';
+import VM, { VMOptions } from './VM';
+
+/**
+ * An inclusive range of UTF-16 code units
+ */
+export type CharacterRange = { from: number; to: number };
+
+/**
+ * A node in the abstract syntax tree of a regular expression, as produced by parseRegex. Groups
+ * are represented by their contents, as captures are not supported.
+ */
+export type RegexNode =
+	| { type: 'character'; value: string }
+	| { type: 'set'; ranges: CharacterRange[]; description: string }
+	| { type: 'sequence'; items: RegexNode[] }
+	| { type: 'choice'; alternatives: RegexNode[] }
+	| { type: 'repetition'; item: RegexNode; min: number; max: number | null; isGreedy: boolean }
+	| { type: 'start' }
+	| { type: 'end' };
+
+/**
+ * Options for compiling regular expressions
+ */
+export interface RegexOptions {
+	/**
+	 * Allow each character (or character set) in the pattern to be missing from the input, at a
+	 * badness of 1 each, and record the expected characters using record instructions. The records
+	 * of an accepting Trace then spell out how the input could be completed to match the pattern.
+	 * Characters are recorded as themselves, sets as their source in the pattern. Defaults to
+	 * false.
+	 */
+	recordMissing?: boolean;
+}
+
+const MAX_CODE_UNIT = 0xffff;
+
+/**
+ * Sorts the given ranges and merges those which overlap or are adjacent.
+ */
+function normalizeRanges(ranges: CharacterRange[]): CharacterRange[] {
+	const sortedRanges = ranges.slice().sort((a, b) => a.from - b.from);
+	const normalizedRanges: CharacterRange[] = [];
+	sortedRanges.forEach(range => {
+		const last = normalizedRanges[normalizedRanges.length - 1];
+		if (last && range.from <= last.to + 1) {
+			last.to = Math.max(last.to, range.to);
+			return;
+		}
+		normalizedRanges.push({ from: range.from, to: range.to });
+	});
+	return normalizedRanges;
+}
+
+/**
+ * Returns the ranges of all code units not in the given ranges.
+ */
+function complementRanges(ranges: CharacterRange[]): CharacterRange[] {
+	const complement: CharacterRange[] = [];
+	let next = 0;
+	normalizeRanges(ranges).forEach(range => {
+		if (range.from > next) {
+			complement.push({ from: next, to: range.from - 1 });
+		}
+		next = range.to + 1;
+	});
+	if (next <= MAX_CODE_UNIT) {
+		complement.push({ from: next, to: MAX_CODE_UNIT });
+	}
+	return complement;
+}
+
+function isInRanges(item: string, ranges: CharacterRange[]): boolean {
+	if (typeof item !== 'string' || item.length !== 1) {
+		return false;
+	}
+	const code = item.charCodeAt(0);
+	// Binary search, as the ranges are sorted and do not overlap
+	let low = 0;
+	let high = ranges.length - 1;
+	while (low <= high) {
+		const middle = (low + high) >>> 1;
+		const range = ranges[middle];
+		if (code < range.from) {
+			high = middle - 1;
+		} else if (code > range.to) {
+			low = middle + 1;
+		} else {
+			return true;
+		}
+	}
+	return false;
+}
+
+function range(from: string, to: string = from): CharacterRange {
+	return { from: from.charCodeAt(0), to: to.charCodeAt(0) };
+}
+
+const DIGIT_RANGES = [range('0', '9')];
+const WORD_RANGES = normalizeRanges([
+	range('a', 'z'),
+	range('A', 'Z'),
+	range('0', '9'),
+	range('_')
+]);
+const SPACE_RANGES = normalizeRanges([
+	range('\t', '\r'),
+	range(' '),
+	{ from: 0xa0, to: 0xa0 },
+	{ from: 0x1680, to: 0x1680 },
+	{ from: 0x2000, to: 0x200a },
+	{ from: 0x2028, to: 0x2029 },
+	{ from: 0x202f, to: 0x202f },
+	{ from: 0x205f, to: 0x205f },
+	{ from: 0x3000, to: 0x3000 },
+	{ from: 0xfeff, to: 0xfeff }
+]);
+const LINE_TERMINATOR_RANGES = normalizeRanges([
+	range('\n'),
+	range('\r'),
+	{ from: 0x2028, to: 0x2029 }
+]);
+
+const CLASS_ESCAPES: { [escape: string]: CharacterRange[] } = {
+	d: DIGIT_RANGES,
+	D: complementRanges(DIGIT_RANGES),
+	w: WORD_RANGES,
+	W: complementRanges(WORD_RANGES),
+	s: SPACE_RANGES,
+	S: complementRanges(SPACE_RANGES)
+};
+
+const CONTROL_ESCAPES: { [escape: string]: string } = {
+	f: '\f',
+	n: '\n',
+	r: '\r',
+	t: '\t',
+	v: '\v'
+};
+
+/**
+ * The state of parsing a single pattern
+ */
+type ParserState = { pattern: string; position: number; depth: number };
+
+function fail(state: ParserState, message: string): never {
+	throw new Error(
+		'Invalid regular expression /' +
+			state.pattern +
+			'/: ' +
+			message +
+			' at position ' +
+			state.position
+	);
+}
+
+function peek(state: ParserState): string | null {
+	return state.position < state.pattern.length ? state.pattern[state.position] : null;
+}
+
+function parseHexadecimal(state: ParserState, length: number): string {
+	const digits = state.pattern.substr(state.position, length);
+	if (digits.length !== length || !/^[0-9a-fA-F]+$/.test(digits)) {
+		fail(state, 'Invalid hexadecimal escape');
+	}
+	state.position += length;
+	return String.fromCharCode(parseInt(digits, 16));
+}
+
+/**
+ * Parses the escape following a backslash, returning either a single character or the ranges for
+ * a class escape such as \d.
+ */
+function parseEscape(state: ParserState, isInClass: boolean): string | CharacterRange[] {
+	const escape = peek(state);
+	if (escape === null) {
+		return fail(state, '\\ at end of pattern');
+	}
+	++state.position;
+	if (CLASS_ESCAPES.hasOwnProperty(escape)) {
+		return CLASS_ESCAPES[escape];
+	}
+	if (CONTROL_ESCAPES.hasOwnProperty(escape)) {
+		return CONTROL_ESCAPES[escape];
+	}
+	switch (escape) {
+		case 'b':
+			if (isInClass) {
+				// Backspace
+				return '\b';
+			}
+			return fail(state, 'Word boundaries are not supported');
+
+		case 'B':
+			return fail(state, 'Word boundaries are not supported');
+
+		case 'x':
+			return parseHexadecimal(state, 2);
+
+		case 'u':
+			return parseHexadecimal(state, 4);
+
+		case 'c': {
+			const letter = peek(state);
+			if (letter === null || !/[a-zA-Z]/.test(letter)) {
+				return fail(state, 'Invalid control escape');
+			}
+			++state.position;
+			return String.fromCharCode(letter.charCodeAt(0) % 32);
+		}
+
+		case '0':
+			if (!/[0-9]/.test(peek(state) || '')) {
+				return '\0';
+			}
+			return fail(state, 'Octal escapes are not supported');
+	}
+	if (/[1-9]/.test(escape)) {
+		return fail(state, 'Backreferences are not supported');
+	}
+	// Identity escape, such as \. or \\
+	return escape;
+}
+
+function parseClassAtom(state: ParserState): string | CharacterRange[] {
+	const char = state.pattern[state.position++];
+	return char === '\\' ? parseEscape(state, true) : char;
+}
+
+function parseClass(state: ParserState): RegexNode {
+	const start = state.position;
+	// Skip the opening bracket
+	++state.position;
+	const isNegated = peek(state) === '^';
+	if (isNegated) {
+		++state.position;
+	}
+	const ranges: CharacterRange[] = [];
+	while (peek(state) !== ']') {
+		if (peek(state) === null) {
+			return fail(state, 'Unterminated character class');
+		}
+		const from = parseClassAtom(state);
+		if (
+			typeof from === 'string' &&
+			peek(state) === '-' &&
+			state.position + 1 < state.pattern.length &&
+			state.pattern[state.position + 1] !== ']'
+		) {
+			// Skip the dash
+			++state.position;
+			const to = parseClassAtom(state);
+			if (typeof to !== 'string') {
+				return fail(state, 'Invalid character class range');
+			}
+			if (to.charCodeAt(0) < from.charCodeAt(0)) {
+				return fail(state, 'Range out of order in character class');
+			}
+			ranges.push(range(from, to));
+			continue;
+		}
+		if (typeof from === 'string') {
+			ranges.push(range(from));
+		} else {
+			ranges.push.apply(ranges, from);
+		}
+	}
+	// Skip the closing bracket
+	++state.position;
+	return {
+		type: 'set',
+		ranges: isNegated ? complementRanges(ranges) : normalizeRanges(ranges),
+		description: state.pattern.slice(start, state.position)
+	};
+}
+
+function parseGroup(state: ParserState): RegexNode {
+	// Skip the opening parenthesis
+	++state.position;
+	if (peek(state) === '?') {
+		const kind = state.pattern[state.position + 1];
+		if (kind === '=' || kind === '!' || kind === '<') {
+			return fail(state, 'Lookaround assertions are not supported');
+		}
+		if (kind !== ':') {
+			return fail(state, 'Invalid group');
+		}
+		state.position += 2;
+	}
+	++state.depth;
+	const node = parseChoice(state);
+	if (peek(state) !== ')') {
+		return fail(state, 'Unterminated group');
+	}
+	++state.position;
+	--state.depth;
+	return node;
+}
+
+const BOUNDED_QUANTIFIER = /^\{(\d+)(,(\d*))?\}/;
+
+/**
+ * Parses a quantifier, if one follows at the current position.
+ */
+function parseQuantifier(state: ParserState): { min: number; max: number | null } | null {
+	switch (peek(state)) {
+		case '*':
+			++state.position;
+			return { min: 0, max: null };
+
+		case '+':
+			++state.position;
+			return { min: 1, max: null };
+
+		case '?':
+			++state.position;
+			return { min: 0, max: 1 };
+
+		case '{': {
+			const match = BOUNDED_QUANTIFIER.exec(state.pattern.slice(state.position));
+			if (match === null) {
+				// Not a quantifier, treat as a literal
+				return null;
+			}
+			const min = parseInt(match[1], 10);
+			const max = match[2] === undefined ? min : match[3] ? parseInt(match[3], 10) : null;
+			if (max !== null && max < min) {
+				return fail(state, 'Numbers out of order in {} quantifier');
+			}
+			state.position += match[0].length;
+			return { min, max };
+		}
+	}
+	return null;
+}
+
+function parseAtom(state: ParserState): RegexNode {
+	const char = peek(state) as string;
+	switch (char) {
+		case '(':
+			return parseGroup(state);
+
+		case '[':
+			return parseClass(state);
+
+		case '.':
+			++state.position;
+			return {
+				type: 'set',
+				ranges: complementRanges(LINE_TERMINATOR_RANGES),
+				description: '.'
+			};
+
+		case '\\': {
+			const start = state.position;
+			++state.position;
+			const escaped = parseEscape(state, false);
+			if (typeof escaped === 'string') {
+				return { type: 'character', value: escaped };
+			}
+			return {
+				type: 'set',
+				ranges: escaped,
+				description: state.pattern.slice(start, state.position)
+			};
+		}
+
+		case '*':
+		case '+':
+		case '?':
+			return fail(state, 'Nothing to repeat');
+
+		case '{':
+			if (BOUNDED_QUANTIFIER.test(state.pattern.slice(state.position))) {
+				return fail(state, 'Nothing to repeat');
+			}
+			break;
+	}
+	++state.position;
+	return { type: 'character', value: char };
+}
+
+function parseTerm(state: ParserState, isFirstInSequence: boolean): RegexNode {
+	switch (peek(state)) {
+		case '^':
+			// Only supported where it can be checked before consuming any input
+			if (state.depth > 0 || !isFirstInSequence) {
+				return fail(state, '^ is only supported at the start of the pattern');
+			}
+			++state.position;
+			return { type: 'start' };
+
+		case '$':
+			++state.position;
+			return { type: 'end' };
+	}
+
+	const item = parseAtom(state);
+	const quantifier = parseQuantifier(state);
+	if (quantifier === null) {
+		return item;
+	}
+	const isGreedy = peek(state) !== '?';
+	if (!isGreedy) {
+		++state.position;
+	}
+	if (parseQuantifier(state) !== null) {
+		return fail(state, 'Nothing to repeat');
+	}
+	return { type: 'repetition', item, min: quantifier.min, max: quantifier.max, isGreedy };
+}
+
+function parseSequence(state: ParserState): RegexNode {
+	const items: RegexNode[] = [];
+	for (
+		let next = peek(state);
+		next !== null && next !== '|' && next !== ')';
+		next = peek(state)
+	) {
+		items.push(parseTerm(state, items.length === 0));
+	}
+	return items.length === 1 ? items[0] : { type: 'sequence', items };
+}
+
+function parseChoice(state: ParserState): RegexNode {
+	const alternatives = [parseSequence(state)];
+	while (peek(state) === '|') {
+		++state.position;
+		alternatives.push(parseSequence(state));
+	}
+	return alternatives.length === 1 ? alternatives[0] : { type: 'choice', alternatives };
+}
+
+/**
+ * Parses a regular expression in a dialect close to that of JavaScript. This supports characters
+ * and escapes, the . wildcard, character classes (including class escapes such as \d, \w and \s),
+ * alternatives, capturing and non-capturing groups, the quantifiers *, +, ? and {m,n} as well as
+ * their non-greedy variants, and the ^ and $ anchors, though ^ is only allowed at the start of the
+ * pattern. Lookaround assertions, word boundaries and backreferences are not supported.
+ *
+ * @param pattern The regular expression, without delimiters or flags
+ *
+ * @return The abstract syntax tree for the pattern
+ */
+export function parseRegex(pattern: string): RegexNode {
+	const state: ParserState = { pattern, position: 0, depth: 0 };
+	const node = parseChoice(state);
+	if (state.position < pattern.length) {
+		// parseChoice only stops early for unmatched parentheses
+		fail(state, 'Unmatched ")"');
+	}
+	return node;
+}
+
+function isAfterStartOfInput<O>(_options: O | undefined, inputIndex: number): boolean {
+	return inputIndex > 0;
+}
+
+function compileTest<O>(
+	assembler: Assembler<string, O>,
+	matcher: (item: string) => boolean,
+	description: string,
+	options: RegexOptions
+) {
+	if (!options.recordMissing) {
+		assembler.test(matcher, description);
+		return;
+	}
+	// Record the expected character, then allow it to be either present or missing. Prefer the
+	// branch where it is present.
+	const present = assembler.label();
+	const missing = assembler.label();
+	const end = assembler.label();
+	assembler.record(description);
+	assembler.jump([present, missing]);
+	assembler.bind(present);
+	assembler.test(matcher, description);
+	assembler.jump([end]);
+	assembler.bind(missing);
+	assembler.bad();
+	assembler.bind(end);
+}
+
+function compileNode<O>(assembler: Assembler<string, O>, node: RegexNode, options: RegexOptions) {
+	switch (node.type) {
+		case 'character':
+			compileTest(assembler, item => item === node.value, node.value, options);
+			return;
+
+		case 'set': {
+			const ranges = node.ranges;
+			compileTest(assembler, item => isInRanges(item, ranges), node.description, options);
+			return;
+		}
+
+		case 'sequence':
+			node.items.forEach(item => compileNode(assembler, item, options));
+			return;
+
+		case 'choice': {
+			// Fork to each of the alternatives, joining afterwards
+			const end = assembler.label();
+			const starts = node.alternatives.map(() => assembler.label());
+			assembler.jump(starts);
+			node.alternatives.forEach((alternative, i) => {
+				assembler.bind(starts[i]);
+				compileNode(assembler, alternative, options);
+				if (i < node.alternatives.length - 1) {
+					assembler.jump([end]);
+				}
+			});
+			assembler.bind(end);
+			return;
+		}
+
+		case 'repetition': {
+			for (let i = 0; i < node.min; ++i) {
+				compileNode(assembler, node.item, options);
+			}
+			const end = assembler.label();
+			if (node.max === null) {
+				// Loop for any number of additional repetitions
+				const loop = assembler.label();
+				const body = assembler.label();
+				assembler.bind(loop);
+				assembler.jump([body, end]);
+				assembler.bind(body);
+				if (!node.isGreedy) {
+					// Prefer fewer repetitions
+					assembler.bad();
+				}
+				compileNode(assembler, node.item, options);
+				assembler.jump([loop]);
+			} else {
+				// Each optional repetition may be skipped, ending the repetition
+				for (let i = node.min; i < node.max; ++i) {
+					const body = assembler.label();
+					assembler.jump([body, end]);
+					assembler.bind(body);
+					if (!node.isGreedy) {
+						// Prefer fewer repetitions
+						assembler.bad();
+					}
+					compileNode(assembler, node.item, options);
+				}
+			}
+			assembler.bind(end);
+			return;
+		}
+
+		case 'start':
+			// Only continue at the start of the input, as searching may start matching anywhere
+			assembler.fail(isAfterStartOfInput);
+			return;
+
+		case 'end':
+			// Only continue if there is no further input
+			assembler.negativeLookahead(() => true, '$');
+			return;
+	}
+}
+
+/**
+ * Appends instructions matching the given regular expression to the program being assembled. The
+ * input is expected to consist of single characters. Test instructions receive the character or
+ * the source of the character set they match as their data.
+ *
+ * Each repetition taken by a non-greedy quantifier adds a badness of 1, those of greedy
+ * quantifiers do not. As VM#search prefers the longest of the matches with the lowest badness,
+ * searching then finds as many or as few repetitions as expected.
+ *
+ * @param assembler The Assembler to use
+ * @param pattern   The regular expression, either as a string in the dialect described for
+ *                  parseRegex or as its abstract syntax tree
+ * @param options   Options for the compilation
+ */
+export function compileRegex<O>(
+	assembler: Assembler<string, O>,
+	pattern: string | RegexNode,
+	options: RegexOptions = {}
+) {
+	const node = typeof pattern === 'string' ? parseRegex(pattern) : pattern;
+	compileNode(assembler, node, options);
+}
+
+/**
+ * Convenience helper function that creates a new VM matching the given regular expression. The VM
+ * expects its input as single characters, e.g. by splitting a string.
+ *
+ * @param pattern   The regular expression, as for compileRegex
+ * @param options   Options for the compilation
+ * @param vmOptions Additional options for the VM
+ *
+ * @return VM running the compiled program
+ */
+export function compileRegexVM<O = void>(
+	pattern: string | RegexNode,
+	options?: RegexOptions,
+	vmOptions?: VMOptions<string, O>
+): VM<string, O> {
+	const assembler = new Assembler<string, O>();
+	compileRegex(assembler, pattern, options);
+	assembler.accept();
+	return new VM<string, O>(assembler.finalize(), undefined, vmOptions);
+}
@@ -0,0 +1,206 @@
+import { Instruction } from './Instruction';
+
+/**
+ * A problem found while validating a program. Errors indicate the program can not be run reliably,
+ * warnings indicate the program probably does not do what was intended.
+ */
+export interface Diagnostic {
+	severity: 'error' | 'warning';
+	/**
+	 * Index of the instruction the diagnostic applies to, or null if it concerns the program as a
+	 * whole
+	 */
+	pc: number | null;
+	message: string;
+}
+
+function isValidTarget(target: any, programLength: number): boolean {
+	return typeof target === 'number' && target % 1 === 0 && target >= 0 && target < programLength;
+}
+
+function isPositiveInteger(value: any): boolean {
+	return typeof value === 'number' && value % 1 === 0 && value >= 1;
+}
+
+function checkInstruction<I, O>(
+	instruction: Instruction<I, O>,
+	pc: number,
+	programLength: number,
+	diagnostics: Diagnostic[]
+) {
+	function error(message: string) {
+		diagnostics.push({ severity: 'error', pc, message });
+	}
+
+	const func = instruction.func;
+	const hasFunc = func !== null && func !== undefined;
+	if (hasFunc && typeof func !== 'function') {
+		error('Callback for ' + instruction.op + ' instruction is not a function');
+	}
+
+	switch (instruction.op) {
+		case 'test':
+		case 'lookahead':
+		case 'negativeLookahead':
+		case 'record':
+			if (!hasFunc) {
+				error('Missing callback for ' + instruction.op + ' instruction');
+			}
+			return;
+
+		case 'testSequence':
+			if (!hasFunc) {
+				error('Missing callback for testSequence instruction');
+			}
+			if (!isPositiveInteger(instruction.length)) {
+				error('Length for testSequence instruction should be a positive integer');
+			}
+			return;
+
+		case 'call':
+			if (!hasFunc) {
+				error('Missing callback for call instruction');
+			}
+			if (typeof instruction.data !== 'string') {
+				error('Sub-program id for call instruction should be a string');
+			}
+			return;
+
+		case 'skip':
+			if (!isPositiveInteger(instruction.data)) {
+				error('Count for skip instruction should be a positive integer');
+			}
+			return;
+
+		case 'fail':
+			return;
+
+		case 'jump':
+			if (!Array.isArray(instruction.data)) {
+				error('Targets for jump instruction should be an array of program counters');
+				return;
+			}
+			instruction.data.forEach((target: any) => {
+				if (!isValidTarget(target, programLength)) {
+					error('Jump target ' + target + ' is outside the program');
+				}
+			});
+			return;
+
+		case 'bad':
+			if (typeof instruction.data !== 'number' || !isFinite(instruction.data)) {
+				error('Cost for bad instruction should be a finite number');
+			}
+			return;
+
+		case 'accept':
+			return;
+
+		default:
+			error('Unknown instruction "' + instruction.op + '"');
+	}
+}
+
+/**
+ * Returns the program counters at which execution may continue after the given instruction.
+ *
+ * @param instruction The instruction
+ * @param pc          The index of the instruction in its program
+ *
+ * @return Program counters of the instruction's successors, which may lie outside the program
+ */
+export function getSuccessors<I, O>(instruction: Instruction<I, O>, pc: number): number[] {
+	switch (instruction.op) {
+		case 'jump':
+			return Array.isArray(instruction.data) ? instruction.data : [];
+
+		case 'fail':
+			// An unconditional fail always ends the thread
+			return instruction.func ? [pc + 1] : [];
+
+		case 'test':
+		case 'testSequence':
+		case 'skip':
+		case 'call':
+		case 'lookahead':
+		case 'negativeLookahead':
+		case 'record':
+		case 'bad':
+			return [pc + 1];
+
+		default:
+			return [];
+	}
+}
+
+/**
+ * Checks a program for problems that would otherwise only show up (or silently cause the program
+ * to never match) when it is executed.
+ *
+ * @param program The program to validate, as created by the Assembler
+ *
+ * @return Diagnostics for all problems found, empty if the program is valid
+ */
+export default function validateProgram<I, O = void>(program: Instruction<I, O>[]): Diagnostic[] {
+	const diagnostics: Diagnostic[] = [];
+	const programLength = program.length;
+	program.forEach((instruction, pc) => {
+		checkInstruction(instruction, pc, programLength, diagnostics);
+	});
+
+	// Determine reachable instructions, starting from the first
+	const isReachable: boolean[] = new Array(programLength);
+	let canAccept = false;
+	const pending = programLength ? [0] : [];
+	while (pending.length) {
+		const pc = pending.pop() as number;
+		if (isReachable[pc]) {
+			continue;
+		}
+		isReachable[pc] = true;
+		const instruction = program[pc];
+		if (instruction.op === 'accept') {
+			canAccept = true;
+		}
+		getSuccessors(instruction, pc).forEach(target => {
+			if (isValidTarget(target, programLength) && !isReachable[target]) {
+				pending.push(target);
+			}
+		});
+	}
+
+	for (let pc = 0; pc < programLength; ++pc) {
+		if (!isReachable[pc]) {
+			diagnostics.push({ severity: 'warning', pc, message: 'Instruction is unreachable' });
+		}
+	}
+
+	if (!canAccept) {
+		diagnostics.push({
+			severity: 'warning',
+			pc: null,
+			message: 'No accept instruction can be reached, the program never matches'
+		});
+	}
+
+	return diagnostics;
+}
+
+/**
+ * Formats a list of diagnostics as human-readable text, one line per diagnostic.
+ *
+ * @param diagnostics The diagnostics to format
+ *
+ * @return The formatted diagnostics
+ */
+export function formatDiagnostics(diagnostics: Diagnostic[]): string {
+	return diagnostics
+		.map(
+			diagnostic =>
+				diagnostic.severity +
+				(diagnostic.pc === null ? '' : ' at ' + diagnostic.pc) +
+				': ' +
+				diagnostic.message
+		)
+		.join('\n');
+}
@@ -31,6 +31,73 @@ describe('Assembler', () => {
 		});
 	});
 
+	describe('.testSequence()', () => {
+		it('generates a testSequence instruction', () => {
+			const instruction = assembler.testSequence(3, truth, 'meep');
+			expect(instruction.op).toBe('testSequence');
+			expect(instruction.func).toBe(truth);
+			expect(instruction.data).toBe('meep');
+			expect(instruction.length).toBe(3);
+		});
+
+		it('throws if the length is not a positive integer', () => {
+			expect(() => assembler.testSequence(0, truth)).toThrow(
+				'The length of a test sequence should be a positive integer'
+			);
+			expect(() => assembler.testSequence(1.5, truth)).toThrow(
+				'The length of a test sequence should be a positive integer'
+			);
+		});
+	});
+
+	describe('.skip()', () => {
+		it('generates a skip instruction', () => {
+			const instruction = assembler.skip(2);
+			expect(instruction.op).toBe('skip');
+			expect(instruction.data).toBe(2);
+		});
+
+		it('skips a single item by default', () => {
+			expect(assembler.skip().data).toBe(1);
+		});
+
+		it('throws if the count is not a positive integer', () => {
+			expect(() => assembler.skip(-1)).toThrow(
+				'The number of items to skip should be a positive integer'
+			);
+		});
+	});
+
+	describe('.call()', () => {
+		it('generates a call instruction', () => {
+			function getChildren() {
+				return [];
+			}
+			const instruction = assembler.call('meep', getChildren);
+			expect(instruction.op).toBe('call');
+			expect(instruction.func).toBe(getChildren);
+			expect(instruction.data).toBe('meep');
+		});
+	});
+
+	describe('.lookahead()', () => {
+		it('generates a lookahead instruction', () => {
+			const instruction = assembler.lookahead(truth, 'meep');
+			expect(instruction.op).toBe('lookahead');
+			expect(instruction.func).toBe(truth);
+			expect(instruction.data).toBe('meep');
+		});
+	});
+
+	describe('.negativeLookahead()', () => {
+		it('generates a negativeLookahead instruction', () => {
+			const instruction = assembler.negativeLookahead(truth);
+			expect(instruction.op).toBe('negativeLookahead');
+			expect(instruction.func).toBe(truth);
+			expect(instruction.data).toBe(null);
+		});
+	});
+
 	describe('.jump()', () => {
 		it('generates a jump instruction', () => {
 			const instruction = assembler.jump([1, 2, 3]);
@@ -42,6 +109,57 @@ describe('Assembler', () => {
 			const instruction = assembler.jump([]);
 			expect(assembler.program[assembler.program.length - 1]).toBe(instruction);
 		});
+
+		it('can jump to a bound label', () => {
+			assembler.accept();
+			const label = assembler.label();
+			assembler.bind(label);
+			assembler.accept();
+			const instruction = assembler.jump([label, 0]);
+			expect(instruction.data).toEqual([1, 0]);
+		});
+
+		it('can jump to a label that is bound later', () => {
+			const label = assembler.label();
+			const instruction = assembler.jump([0, label]);
+			assembler.accept();
+			expect(assembler.bind(label)).toBe(2);
+			expect(instruction.data).toEqual([0, 2]);
+		});
+
+		it('throws when jumping to a label of a different assembler', () => {
+			const label = new Assembler<void>().label('meep');
+			expect(() => assembler.jump([label])).toThrow('Label "meep" was not created');
+		});
+	});
+
+	describe('.bind()', () => {
+		it('throws if the label is already bound', () => {
+			const label = assembler.label('meep');
+			assembler.bind(label);
+			expect(() => assembler.bind(label)).toThrow('Label "meep" is already bound to 0');
+		});
+
+		it('throws if the label was created by a different assembler', () => {
+			const label = new Assembler<void>().label();
+			expect(() => assembler.bind(label)).toThrow('Unnamed label was not created');
+		});
+	});
+
+	describe('.finalize()', () => {
+		it('returns the program', () => {
+			const label = assembler.label();
+			assembler.jump([label]);
+			assembler.bind(label);
+			assembler.accept();
+			expect(assembler.finalize()).toBe(assembler.program);
+		});
+
+		it('throws if a label is never bound', () => {
+			const label = assembler.label('meep');
+			assembler.jump([label]);
+			expect(() => assembler.finalize()).toThrow('Labels are never bound: Label "meep"');
+		});
 	});
 
 	describe('.record()', () => {
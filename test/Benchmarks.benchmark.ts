@@ -0,0 +1,60 @@
+import whynot from '../src/index';
+import compileAmbiguous from './util/compileAmbiguous';
+
+/**
+ * Benchmarks comparing different ways of running programs, reporting the time taken per run. As
+ * timings vary between machines, these are not part of the test suite. Run them using
+ * `npm run benchmark`.
+ */
+describe('Benchmarks', () => {
+	function measure(run: () => void, iterations: number): number {
+		// Warm up
+		run();
+		let best = Infinity;
+		for (let i = 0; i < iterations; ++i) {
+			const start = Date.now();
+			run();
+			best = Math.min(best, Date.now() - start);
+		}
+		return best;
+	}
+
+	function report(name: string, timings: { [path: string]: number }) {
+		console.log(
+			name +
+				'\n' +
+				Object.keys(timings)
+					.map(path => '  ' + path + ': ' + timings[path] + 'ms')
+					.join('\n')
+		);
+	}
+
+	const input: number[] = [];
+	for (let i = 0; i < 1000; ++i) {
+		input.push(i + 1);
+	}
+
+	it('first match', () => {
+		const vm = whynot.compileVM(compileAmbiguous);
+		const full = measure(() => vm.execute(input), 3);
+		const firstMatch = measure(() => vm.execute(input, undefined, { firstMatch: true }), 3);
+		report('first match', { full, firstMatch });
+	});
+
+	it('recognize', () => {
+		const vm = whynot.compileVM(compileAmbiguous);
+		const firstMatch = measure(() => vm.execute(input, undefined, { firstMatch: true }), 3);
+		const recognize = measure(() => vm.recognize(input), 3);
+		report('recognize', { firstMatch, recognize });
+	});
+
+	it('visited instruction tracking', () => {
+		// The cost of tracking visited instructions should not grow much with the program length
+		const shortInput = input.slice(0, 200);
+		const smallVM = whynot.compileVM<number>(assembler => compileAmbiguous(assembler));
+		const largeVM = whynot.compileVM<number>(assembler => compileAmbiguous(assembler, 10000));
+		const small = measure(() => smallVM.execute(shortInput), 3);
+		const large = measure(() => largeVM.execute(shortInput), 3);
+		report('visited instruction tracking', { small, large });
+	});
+});
@@ -0,0 +1,107 @@
+import Trace from '../src/Trace';
+import { VM, default as whynot } from '../src/index';
+import compileAmbiguous from './util/compileAmbiguous';
+
+/**
+ * Checks that the faster ways of running programs avoid the work they are meant to avoid, by
+ * counting calls to the more expensive operations. Timings are measured by the benchmarks in
+ * Benchmarks.benchmark.ts instead, which can be run using `npm run benchmark`.
+ */
+describe('Benchmarks', () => {
+	describe('first match', () => {
+		const input: number[] = [];
+		for (let i = 0; i < 1000; ++i) {
+			input.push(i + 1);
+		}
+
+		let vm: VM<number>;
+		beforeEach(() => {
+			vm = whynot.compileVM(compileAmbiguous);
+		});
+
+		let join: jest.SpyInstance;
+		let compact: jest.SpyInstance;
+		beforeEach(() => {
+			join = jest.spyOn(Trace.prototype, 'join');
+			compact = jest.spyOn(Trace.prototype, 'compact');
+		});
+		afterEach(() => {
+			join.mockRestore();
+			compact.mockRestore();
+		});
+
+		it('only creates a trace for the accepting path', () => {
+			const result = vm.execute(input, undefined, { firstMatch: true });
+			expect(result.success).toBe(true);
+			expect(join).not.toHaveBeenCalled();
+			expect(compact).toHaveBeenCalledTimes(1);
+			expect(result.acceptingTraces.length).toBe(1);
+			expect(result.acceptingTraces[0].prefixes).toEqual([]);
+		});
+
+		it('avoids the work of collecting all accepting traces', () => {
+			expect(vm.execute(input).success).toBe(true);
+			expect(join.mock.calls.length).toBeGreaterThan(input.length);
+			expect(compact.mock.calls.length).toBeGreaterThan(input.length);
+		});
+	});
+
+	describe('recognize', () => {
+		const input: number[] = [];
+		for (let i = 0; i < 1000; ++i) {
+			input.push(i + 1);
+		}
+
+		let vm: VM<number>;
+		beforeEach(() => {
+			vm = whynot.compileVM(compileAmbiguous);
+		});
+
+		let join: jest.SpyInstance;
+		let compact: jest.SpyInstance;
+		beforeEach(() => {
+			join = jest.spyOn(Trace.prototype, 'join');
+			compact = jest.spyOn(Trace.prototype, 'compact');
+		});
+		afterEach(() => {
+			join.mockRestore();
+			compact.mockRestore();
+		});
+
+		it('does not create any traces', () => {
+			expect(vm.recognize(input)).toBe(true);
+			expect(join).not.toHaveBeenCalled();
+			expect(compact).not.toHaveBeenCalled();
+		});
+	});
+
+	describe('visited instruction tracking', () => {
+		const input: number[] = [];
+		for (let i = 0; i < 200; ++i) {
+			input.push(i + 1);
+		}
+
+		let contains: jest.SpyInstance;
+		beforeEach(() => {
+			contains = jest.spyOn(Trace.prototype, 'contains');
+		});
+		afterEach(() => {
+			contains.mockRestore();
+		});
+
+		it('detects cycles without walking the paths leading to each trace', () => {
+			const vm = whynot.compileVM<number>(assembler => compileAmbiguous(assembler, 10000));
+			expect(vm.execute(input).success).toBe(true);
+			expect(contains.mock.calls.length).toBeGreaterThan(input.length);
+			// Trace#contains is only fast for the generation its Thread is running in, so each
+			// check should query the generation being run, in order
+			let currentGeneration = 0;
+			contains.mock.calls.forEach(([_pc, generation]) => {
+				expect(generation).toBeGreaterThanOrEqual(currentGeneration);
+				expect(generation).toBeLessThanOrEqual(currentGeneration + 1);
+				currentGeneration = generation;
+			});
+			expect(currentGeneration).toBe(input.length);
+		});
+	});
+});
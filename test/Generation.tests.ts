@@ -114,5 +114,71 @@ describe('Generation', () => {
 				{ pc: 4, badness: 2 }
 			]);
 		});
+
+		describe('with pruning', () => {
+			it('drops threads with a badness above the maximum', () => {
+				generation = new Generation(10, [], 0, { maxBadness: 1 });
+				schedule(generation, [
+					{ pc: 0, badness: 0 },
+					{ pc: 1, badness: 2 },
+					{ pc: 2, badness: 1 }
+				]);
+				expect(generation.prunedThreadCount).toBe(1);
+				expectOrder(generation, [
+					{ pc: 0, badness: 0 },
+					{ pc: 2, badness: 1 }
+				]);
+				expect(generation.getNextThread()).toBe(null);
+			});
+
+			it('drops the worst scheduled threads beyond the beam width', () => {
+				generation = new Generation(10, [], 0, { beamWidth: 2 });
+				schedule(generation, [
+					{ pc: 0, badness: 1 },
+					{ pc: 1, badness: 2 },
+					{ pc: 2, badness: 0 },
+					{ pc: 3, badness: 1 }
+				]);
+				expect(generation.prunedThreadCount).toBe(2);
+				expectOrder(generation, [
+					{ pc: 2, badness: 0 },
+					{ pc: 0, badness: 1 }
+				]);
+				expect(generation.getNextThread()).toBe(null);
+			});
+
+			it('does not limit threads added while running', () => {
+				generation = new Generation(10, [], 0, { beamWidth: 1 });
+				schedule(generation, [{ pc: 0, badness: 1 }]);
+				expectOrder(generation, [{ pc: 0, badness: 1 }]);
+				schedule(generation, [
+					{ pc: 1, badness: 2 },
+					{ pc: 2, badness: 0 }
+				]);
+				expectOrder(generation, [
+					{ pc: 2, badness: 0 },
+					{ pc: 1, badness: 2 }
+				]);
+				expect(generation.prunedThreadCount).toBe(0);
+			});
+
+			it('allows adding dropped threads again', () => {
+				generation = new Generation(10, [], 0, { beamWidth: 1 });
+				schedule(generation, [
+					{ pc: 0, badness: 1 },
+					{ pc: 1, badness: 0 }
+				]);
+				schedule(generation, [{ pc: 0, badness: 0 }]);
+				expectOrder(generation, [{ pc: 1, badness: 0 }]);
+				expect(generation.getNextThread()).toBe(null);
+			});
+
+			it('resets the number of dropped threads', () => {
+				generation = new Generation(10, [], 0, { maxBadness: 0 });
+				schedule(generation, [{ pc: 0, badness: 1 }]);
+				generation.reset(1);
+				expect(generation.prunedThreadCount).toBe(0);
+			});
+		});
 	});
 });
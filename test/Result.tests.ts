@@ -15,4 +15,61 @@ describe('Result', () => {
 		expect(result.acceptingTraces.length).toBe(0);
 		expect(result.failingTraces.length).toBe(1);
 	});
+
+	describe('viable prefixes', () => {
+		it('is a viable prefix if successful', () => {
+			const result = new Result([new Trace(0, 0, null, 0)], []);
+			expect(result.isViablePrefix).toBe(true);
+		});
+
+		it('is a viable prefix if threads are pending', () => {
+			const pendingTrace = new Trace(0, 0, null, 0);
+			const result = new Result([], [pendingTrace], [pendingTrace], [{ pc: 0, data: 'a' }]);
+			expect(result.success).toBe(false);
+			expect(result.isViablePrefix).toBe(true);
+			expect(result.pendingTraces).toEqual([pendingTrace]);
+			expect(result.pendingTests).toEqual([{ pc: 0, data: 'a' }]);
+		});
+
+		it('reports the expected tests', () => {
+			const result = new Result([], [new Trace(0, 0, null, 0)], [], [], 3, [
+				{ pc: 0, data: 'a' }
+			]);
+			expect(result.furthestInputIndex).toBe(3);
+			expect(result.expectedTests).toEqual([{ pc: 0, data: 'a' }]);
+		});
+
+		it('is not a viable prefix otherwise', () => {
+			const result = new Result([], [new Trace(0, 0, null, 0)]);
+			expect(result.isViablePrefix).toBe(false);
+			expect(result.pendingTraces).toEqual([]);
+			expect(result.pendingTests).toEqual([]);
+		});
+	});
+
+	describe('best paths', () => {
+		let result: Result;
+		beforeEach(() => {
+			const cheapTrace = new Trace(0, 0, null, 0);
+			cheapTrace.cost = 1;
+			const expensiveTrace = new Trace(1, 0, null, 0);
+			expensiveTrace.cost = 2;
+			const otherCheapTrace = new Trace(2, 0, null, 0);
+			otherCheapTrace.cost = 1;
+			result = new Result([expensiveTrace, cheapTrace, otherCheapTrace], []);
+		});
+
+		it('returns the best path over all accepting traces', () => {
+			expect(result.getBestPath()).toEqual({ pcs: [0], records: [], badness: 1 });
+		});
+
+		it('returns the best paths over all accepting traces', () => {
+			expect(result.getBestPaths(5).map(path => path.pcs)).toEqual([[0], [2], [1]]);
+			expect(result.getBestPaths(2).map(path => path.pcs)).toEqual([[0], [2]]);
+		});
+
+		it('returns null if there are no accepting traces', () => {
+			expect(new Result([], []).getBestPath()).toBe(null);
+		});
+	});
 });
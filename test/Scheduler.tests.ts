@@ -26,6 +26,16 @@ describe('Scheduler', () => {
 			expect(scheduler.getNextThread()).toBe(null);
 		});
 
+		it('reports whether threads are left in the current generation', () => {
+			expect(scheduler.hasNextThread()).toBe(false);
+			scheduler.addThread(1, 3);
+			expect(scheduler.hasNextThread()).toBe(false);
+			scheduler.addThread(0, 3);
+			expect(scheduler.hasNextThread()).toBe(true);
+			scheduler.getNextThread();
+			expect(scheduler.hasNextThread()).toBe(false);
+		});
+
 		it('schedules threads in a next generation', () => {
 			const rootThread = scheduler.addThread(1, 3, undefined, 123);
 			expect(scheduler.getNextThread()).toBe(null);
@@ -37,4 +47,37 @@ describe('Scheduler', () => {
 			expect(scheduler.getNextThread()).toBe(null);
 		});
 	});
+
+	describe('.snapshot() / .restore()', () => {
+		it('restores pending threads with copies of their traces', () => {
+			scheduler.nextGeneration();
+			const thread = scheduler.addThread(0, 3, undefined, 2) as Thread;
+			const nextGenThread = scheduler.addThread(1, 5, thread, 1) as Thread;
+			const snapshot = scheduler.snapshot();
+
+			const other = new Scheduler(2, 10, []);
+			other.restore(snapshot);
+			const restoredThread = other.getNextThread() as Thread;
+			expect(restoredThread.pc).toBe(3);
+			expect(restoredThread.badness).toBe(2);
+			expect(restoredThread.trace).not.toBe(thread.trace);
+			expect(restoredThread.trace.head).toEqual([3]);
+			expect(other.getNextThread()).toBe(null);
+
+			other.nextGeneration();
+			const restoredNextGenThread = other.getNextThread() as Thread;
+			expect(restoredNextGenThread.pc).toBe(5);
+			expect(restoredNextGenThread.trace).not.toBe(nextGenThread.trace);
+			expect(restoredNextGenThread.trace.prefixes).toEqual([thread.trace]);
+		});
+
+		it('does not restore threads that have already run', () => {
+			scheduler.addThread(0, 3);
+			scheduler.addThread(0, 4);
+			scheduler.getNextThread();
+			scheduler.restore(scheduler.snapshot());
+			expect((scheduler.getNextThread() as Thread).pc).toBe(4);
+			expect(scheduler.getNextThread()).toBe(null);
+		});
+	});
 });
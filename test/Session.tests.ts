@@ -0,0 +1,175 @@
+import Trace from '../src/Trace';
+import { Session, VM, default as whynot } from '../src/index';
+
+describe('Session', () => {
+	function flattenRecords(trace: Trace, records: any[] = [], flatRecords: any[][] = []) {
+		const combinedRecords = trace.records.concat(records);
+		if (!trace.prefixes.length) {
+			flatRecords.push(combinedRecords);
+		} else {
+			trace.prefixes.forEach(prefix => flattenRecords(prefix, combinedRecords, flatRecords));
+		}
+		return flatRecords;
+	}
+
+	// Matches "ab*", recording the input index following each b
+	let vm: VM<string>;
+	beforeEach(() => {
+		vm = whynot.compileVM<string>(assembler => {
+			const loop = assembler.label();
+			const b = assembler.label();
+			const end = assembler.label();
+			assembler.test(item => item === 'a');
+			assembler.bind(loop);
+			assembler.jump([b, end]);
+			assembler.bind(b);
+			assembler.test(item => item === 'b');
+			assembler.record(null, (data, index) => index);
+			assembler.jump([loop]);
+			assembler.bind(end);
+			assembler.accept();
+		});
+	});
+
+	function feedAll(session: Session<string>, input: string) {
+		input.split('').forEach(item => session.feed(item));
+	}
+
+	it('produces the same result as executing the complete input', () => {
+		['', 'a', 'ab', 'abbb', 'b', 'abab', 'ba'].forEach(input => {
+			const session = vm.start();
+			feedAll(session, input);
+			const result = session.end();
+			const expected = vm.execute(input.split(''));
+			expect(result.success).toBe(expected.success);
+			expect(result.isViablePrefix).toBe(expected.isViablePrefix);
+			expect(result.furthestInputIndex).toBe(expected.furthestInputIndex);
+			expect(result.expectedTests).toEqual(expected.expectedTests);
+			expect(result.acceptingTraces.map(trace => flattenRecords(trace))).toEqual(
+				expected.acceptingTraces.map(trace => flattenRecords(trace))
+			);
+		});
+	});
+
+	it('passes options to the callbacks', () => {
+		const vmWithOptions = whynot.compileVM<string, string>(assembler => {
+			assembler.test((item, data, options) => item === options);
+			assembler.accept();
+		});
+		const session = vmWithOptions.start('x');
+		session.feed('x');
+		expect(session.end().success).toBe(true);
+	});
+
+	it('keeps track of the input length', () => {
+		const session = vm.start();
+		feedAll(session, 'abxbb');
+		expect(session.inputLength).toBe(5);
+		expect(session.end().furthestInputIndex).toBe(2);
+	});
+
+	describe('.getResult()', () => {
+		it('returns the result of ending the input now', () => {
+			const session = vm.start();
+			expect(session.getResult().success).toBe(false);
+			expect(session.getResult().isViablePrefix).toBe(true);
+
+			session.feed('a');
+			session.feed('b');
+			expect(session.getResult().success).toBe(true);
+			expect(flattenRecords(session.getResult().acceptingTraces[0])).toEqual([[2]]);
+
+			session.feed('a');
+			expect(session.getResult().success).toBe(false);
+			expect(session.getResult().isViablePrefix).toBe(false);
+		});
+
+		it('does not end the session', () => {
+			const session = vm.start();
+			session.feed('a');
+			session.getResult();
+			expect(session.isEnded).toBe(false);
+			session.feed('b');
+			session.feed('b');
+			const result = session.end();
+			expect(result.success).toBe(true);
+			expect(flattenRecords(result.acceptingTraces[0])).toEqual([[2, 3]]);
+		});
+	});
+
+	describe('.end()', () => {
+		it('ends the session', () => {
+			const session = vm.start();
+			session.feed('a');
+			const result = session.end();
+			expect(session.isEnded).toBe(true);
+			expect(session.end()).toBe(result);
+			expect(session.getResult()).toBe(result);
+			expect(() => session.feed('b')).toThrow(
+				'Can not feed input to a session that has ended'
+			);
+		});
+	});
+
+	describe('.snapshot() / .restore()', () => {
+		it('continues from the snapshot', () => {
+			const session = vm.start();
+			session.feed('a');
+			session.feed('b');
+			const snapshot = session.snapshot();
+
+			session.feed('b');
+			expect(flattenRecords(session.end().acceptingTraces[0])).toEqual([[2, 3]]);
+
+			session.restore(snapshot);
+			expect(session.isEnded).toBe(false);
+			expect(session.inputLength).toBe(2);
+			session.feed('x');
+			expect(session.end().success).toBe(false);
+
+			session.restore(snapshot);
+			expect(flattenRecords(session.end().acceptingTraces[0])).toEqual([[2]]);
+		});
+	});
+
+	describe('.fork()', () => {
+		it('creates an independent session', () => {
+			const session = vm.start();
+			session.feed('a');
+			const fork = session.fork();
+			fork.feed('b');
+			session.feed('b');
+			session.feed('b');
+			expect(flattenRecords(fork.end().acceptingTraces[0])).toEqual([[2]]);
+			expect(session.isEnded).toBe(false);
+			expect(flattenRecords(session.end().acceptingTraces[0])).toEqual([[2, 3]]);
+		});
+
+		it('preserves traces which branched before forking', () => {
+			const branchingVM = whynot.compileVM<string>(assembler => {
+				const left = assembler.label();
+				const right = assembler.label();
+				const join = assembler.label();
+				assembler.jump([left, right]);
+				assembler.bind(left);
+				assembler.record('left');
+				assembler.jump([join]);
+				assembler.bind(right);
+				assembler.record('right');
+				assembler.bind(join);
+				assembler.test(item => item === 'a');
+				assembler.test(item => item === 'b');
+				assembler.accept();
+			});
+			const session = branchingVM.start();
+			session.feed('a');
+			const forked = session.fork();
+			forked.feed('b');
+			session.feed('c');
+			const result = forked.end();
+			expect(result.success).toBe(true);
+			expect(flattenRecords(result.acceptingTraces[0]).sort()).toEqual([['left'], ['right']]);
+			expect(session.end().success).toBe(false);
+		});
+	});
+});
@@ -61,6 +61,7 @@ describe('Thread', () => {
 
 		it('has maximum badness', () => {
 			expect(thread.badness).toBe(789);
+			expect(thread.trace.badness).toBe(789);
 		});
 
 		it('has a double-prefixed trace', () => {
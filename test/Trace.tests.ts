@@ -1,4 +1,4 @@
-import Trace from '../src/Trace';
+import Trace, { TracePath } from '../src/Trace';
 
 const PROGRAM_LENGTH = 10;
 
@@ -79,6 +79,30 @@ describe('Trace', () => {
 		});
 	});
 
+	describe('.clone()', () => {
+		it('creates an independent copy sharing the prefixes', () => {
+			const prefix = new Trace(1, PROGRAM_LENGTH, null, 0);
+			const trace = new Trace(2, PROGRAM_LENGTH, prefix, 1);
+			trace.records.push('a');
+			trace.cost = 3;
+			const clone = trace.clone();
+			expect(clone.head).toEqual([2]);
+			expect(clone.records).toEqual(['a']);
+			expect(clone.prefixes).toEqual([prefix]);
+			expect(clone.cost).toBe(3);
+			expect(clone.contains(1, 0)).toBe(true);
+			expect(clone.contains(2, 1)).toBe(true);
+
+			clone.head.push(3);
+			clone.records.push('b');
+			clone.join(new Trace(5, PROGRAM_LENGTH, null, 0));
+			expect(trace.head).toEqual([2]);
+			expect(trace.records).toEqual(['a']);
+			expect(trace.prefixes).toEqual([prefix]);
+			expect(trace.contains(5)).toBe(false);
+		});
+	});
+
 	describe('multiple preceding traces', () => {
 		let rootTrace: Trace;
 		let otherRootTrace: Trace;
@@ -143,6 +167,15 @@ describe('Trace', () => {
 			expect(trace1.contains(3, 1)).toBe(true);
 		});
 
+		it('can determine the generations in which its paths started', () => {
+			expect(trace1.getStartGenerations()).toEqual([0]);
+			trace1.join(trace2);
+			expect(trace1.getStartGenerations()).toEqual([0, 1]);
+			trace1.compact();
+			expect(trace1.getStartGenerations()).toEqual([0, 1]);
+			expect(trace2.getStartGenerations()).toEqual([1]);
+		});
+
 		it('checks all prefixes, considering the most recent generation only', () => {
 			trace1.join(trace2);
 			expect(trace1.contains(1, 0)).toBe(false);
@@ -162,5 +195,201 @@ describe('Trace', () => {
 			expect(trace1.contains(3, 0)).toBe(false);
 			expect(trace1.contains(3, 1)).toBe(true);
 		});
+
+		it('can still be queried after compacting', () => {
+			trace1.join(trace2);
+			trace1.compact();
+			expect(trace1.contains(1, 0)).toBe(false);
+			expect(trace1.contains(1, 1)).toBe(true);
+			expect(trace1.contains(2, 1)).toBe(true);
+			expect(trace1.contains(3, 1)).toBe(true);
+			expect(trace1.contains(3, 2)).toBe(false);
+			expect(trace1.contains(4)).toBe(false);
+		});
+	});
+
+	describe('.paths()', () => {
+		let rootTrace: Trace;
+		let leftTrace: Trace;
+		let rightTrace: Trace;
+		let trace: Trace;
+		beforeEach(() => {
+			// Diamond: 0 -> (1 | 2) -> 3
+			rootTrace = new Trace(0, PROGRAM_LENGTH, null, 0);
+			rootTrace.records.push('root');
+			leftTrace = new Trace(1, PROGRAM_LENGTH, rootTrace, 0);
+			leftTrace.records.push('left');
+			rightTrace = new Trace(2, PROGRAM_LENGTH, rootTrace, 0);
+			rightTrace.records.push('right');
+			trace = new Trace(3, PROGRAM_LENGTH, leftTrace, 0);
+			trace.join(rightTrace);
+		});
+
+		it('produces each path in order', () => {
+			expect(Array.from(trace.paths())).toEqual([
+				{ pcs: [0, 1, 3], records: ['root', 'left'], badness: 0 },
+				{ pcs: [0, 2, 3], records: ['root', 'right'], badness: 0 }
+			]);
+		});
+
+		it('produces a single path for traces without prefixes', () => {
+			expect(Array.from(rootTrace.paths())).toEqual([
+				{ pcs: [0], records: ['root'], badness: 0 }
+			]);
+		});
+
+		it('works on compacted traces', () => {
+			const tail = new Trace(4, PROGRAM_LENGTH, trace, 1);
+			tail.records.push('tail');
+			tail.compact();
+			expect(Array.from(tail.paths())).toEqual([
+				{ pcs: [0, 1, 3, 4], records: ['root', 'left', 'tail'], badness: 0 },
+				{ pcs: [0, 2, 3, 4], records: ['root', 'right', 'tail'], badness: 0 }
+			]);
+		});
+
+		it('is lazy', () => {
+			const paths = trace.paths();
+			expect(paths.next().value.pcs).toEqual([0, 1, 3]);
+			rightTrace.head.push(5);
+			expect(paths.next().value.pcs).toEqual([0, 2, 5, 3]);
+			expect(paths.next().done).toBe(true);
+		});
+
+		it('can limit the number of paths', () => {
+			expect(Array.from(trace.paths({ limit: 1 }))).toEqual([
+				{ pcs: [0, 1, 3], records: ['root', 'left'], badness: 0 }
+			]);
+		});
+
+		it('can deduplicate paths visiting the same instructions', () => {
+			trace.join(leftTrace);
+			expect(Array.from(trace.paths()).length).toBe(3);
+			expect(Array.from(trace.paths({ deduplicate: true }))).toEqual([
+				{ pcs: [0, 1, 3], records: ['root', 'left'], badness: 0 },
+				{ pcs: [0, 2, 3], records: ['root', 'right'], badness: 0 }
+			]);
+		});
+
+		it('can deduplicate paths using a custom key', () => {
+			expect(Array.from(trace.paths({ deduplicate: path => path.records[0] }))).toEqual([
+				{ pcs: [0, 1, 3], records: ['root', 'left'], badness: 0 }
+			]);
+		});
+
+		it('applies the limit after deduplication', () => {
+			trace.prefixes.unshift(leftTrace);
+			expect(Array.from(trace.paths({ deduplicate: true, limit: 2 }))).toEqual([
+				{ pcs: [0, 1, 3], records: ['root', 'left'], badness: 0 },
+				{ pcs: [0, 2, 3], records: ['root', 'right'], badness: 0 }
+			]);
+		});
+	});
+
+	describe('counting and sampling paths', () => {
+		function createDiamonds(count: number): Trace {
+			let trace = new Trace(0, PROGRAM_LENGTH, null, 0);
+			for (let i = 0; i < count; ++i) {
+				const left = new Trace(1, PROGRAM_LENGTH, trace, i);
+				left.records.push('L');
+				const right = new Trace(2, PROGRAM_LENGTH, trace, i);
+				right.records.push('R');
+				trace = new Trace(3, PROGRAM_LENGTH, left, i);
+				trace.join(right);
+			}
+			return trace;
+		}
+
+		it('counts paths', () => {
+			expect(new Trace(0, PROGRAM_LENGTH, null, 0).countPaths()).toBe(1);
+			expect(createDiamonds(3).countPaths()).toBe(8);
+		});
+
+		it('counts exponential numbers of paths exactly', () => {
+			const trace = createDiamonds(100);
+			expect(trace.countPathsExact()).toBe('1267650600228229401496703205376');
+			expect(trace.countPaths()).toBe(Math.pow(2, 100));
+		});
+
+		it('returns paths by index in enumeration order', () => {
+			const trace = createDiamonds(3);
+			const paths = Array.from(trace.paths());
+			for (let i = 0; i < paths.length; ++i) {
+				expect(trace.getPath(i)).toEqual(paths[i]);
+			}
+			expect(trace.getPath(8)).toBe(null);
+		});
+
+		it('returns paths by index for large indices', () => {
+			const trace = createDiamonds(100);
+			const path = trace.getPath('1267650600228229401496703205375') as TracePath;
+			expect(path.records.join('')).toBe(new Array(101).join('R'));
+			expect(trace.getPath('1267650600228229401496703205376')).toBe(null);
+		});
+
+		it('samples paths', () => {
+			const trace = createDiamonds(3);
+			expect(trace.samplePath(() => 0).records).toEqual(['L', 'L', 'L']);
+			expect(trace.samplePath(() => 0.85).records).toEqual(['R', 'R', 'R']);
+			expect(trace.samplePath(() => 5 / 8).records).toEqual(['R', 'L', 'R']);
+			const randomPath = trace.samplePath();
+			expect(Array.from(trace.paths())).toContainEqual(randomPath);
+		});
+	});
+
+	describe('.getBestPaths()', () => {
+		let rootTrace: Trace;
+		let cheapTrace: Trace;
+		let expensiveTrace: Trace;
+		let trace: Trace;
+		beforeEach(() => {
+			rootTrace = new Trace(0, PROGRAM_LENGTH, null, 0);
+			expensiveTrace = new Trace(1, PROGRAM_LENGTH, rootTrace, 0);
+			expensiveTrace.cost = 3;
+			cheapTrace = new Trace(2, PROGRAM_LENGTH, rootTrace, 0);
+			cheapTrace.cost = 1;
+			trace = new Trace(3, PROGRAM_LENGTH, expensiveTrace, 0);
+			trace.join(cheapTrace);
+			trace.cost = 1;
+		});
+
+		it('returns the path with the lowest badness', () => {
+			expect(trace.getBestPaths()).toEqual([{ pcs: [0, 2, 3], records: [], badness: 2 }]);
+		});
+
+		it('returns multiple paths ordered by badness', () => {
+			expect(trace.getBestPaths(3)).toEqual([
+				{ pcs: [0, 2, 3], records: [], badness: 2 },
+				{ pcs: [0, 1, 3], records: [], badness: 4 }
+			]);
+		});
+
+		it('orders paths with equal badness as they are enumerated', () => {
+			cheapTrace.cost = 3;
+			expect(trace.getBestPaths(2)).toEqual(Array.from(trace.paths()));
+		});
+
+		it('preserves the cost of compacted traces', () => {
+			const tail = new Trace(4, PROGRAM_LENGTH, trace, 1);
+			tail.cost = 10;
+			tail.compact();
+			expect(tail.cost).toBe(11);
+			expect(tail.getBestPaths().map(path => path.badness)).toEqual([12]);
+		});
+
+		it('selects the best paths over long traces', () => {
+			let longTrace = trace;
+			for (let i = 0; i < 100; ++i) {
+				const left = new Trace(1, PROGRAM_LENGTH, longTrace, i);
+				left.cost = i % 2;
+				const right = new Trace(2, PROGRAM_LENGTH, longTrace, i);
+				right.cost = 1 - (i % 2);
+				longTrace = new Trace(3, PROGRAM_LENGTH, left, i);
+				longTrace.join(right);
+			}
+			const bestPaths = longTrace.getBestPaths(2);
+			expect(bestPaths.map(path => path.badness)).toEqual([2, 3]);
+			expect(bestPaths[0].pcs.slice(0, 9)).toEqual([0, 2, 3, 1, 3, 2, 3, 1, 3]);
+		});
 	});
 });
@@ -1,6 +1,8 @@
+import { Instruction } from '../src/Instruction';
 import Result from '../src/Result';
-import Trace from '../src/Trace';
+import Trace, { TracePath } from '../src/Trace';
 import { Assembler, VM, default as whynot } from '../src/index';
+import { SearchMatch } from '../src/VM';
 
 describe('VM', () => {
 	function createInput(array: any[]): () => any | null {
@@ -22,6 +24,25 @@ describe('VM', () => {
 		return flatTraces;
 	}
 
+	describe('validation', () => {
+		it('throws for invalid programs if requested', () => {
+			expect(() => new VM([{ op: 'jump', data: [1] }], [], { validate: true })).toThrow(
+				'Invalid program:\nerror at 0: Jump target 1 is outside the program'
+			);
+		});
+
+		it('ignores warnings', () => {
+			const vm = whynot.compileVM<void>(assembler => assembler.fail(), undefined, {
+				validate: true
+			});
+			expect(vm.execute(createInput([])).success).toBe(false);
+		});
+
+		it('does not validate by default', () => {
+			expect(() => new VM([{ op: 'jump', data: [1] }])).not.toThrow();
+		});
+	});
+
 	describe('accept', () => {
 		let vm: VM<void>;
 		beforeEach(() => {
@@ -160,6 +181,20 @@ describe('VM', () => {
 				[0, 3, 4, 5]
 			]);
 		});
+
+		it('records the cost in the trace', () => {
+			const leftResult = vmLeftBad.execute(createInput([]));
+			const rightResult = vmRightBad.execute(createInput([]));
+			expect(leftResult.getBestPaths(2)).toEqual([
+				{ pcs: [0, 3, 4, 5], records: [], badness: 1 },
+				{ pcs: [0, 1, 2, 5], records: [], badness: 100 }
+			]);
+			expect(rightResult.getBestPath()).toEqual({
+				pcs: [0, 1, 2, 5],
+				records: [],
+				badness: 1
+			});
+		});
 	});
 
 	describe('test', () => {
@@ -219,6 +254,300 @@ describe('VM', () => {
 		});
 	});
 
+	describe('testSequence', () => {
+		let vm: VM<string>;
+		beforeEach(() => {
+			// "abc" or "ab" followed by "d"
+			vm = whynot.compileVM<string>(assembler => {
+				const abc = assembler.label();
+				const ab = assembler.label();
+				const end = assembler.label();
+				assembler.jump([abc, ab]);
+				assembler.bind(abc);
+				assembler.testSequence(3, items => items.join('') === 'abc', 'abc');
+				assembler.jump([end]);
+				assembler.bind(ab);
+				assembler.testSequence(2, items => items.join('') === 'ab', 'ab');
+				assembler.test(item => item === 'd', 'd');
+				assembler.bind(end);
+				assembler.accept();
+			});
+		});
+
+		it('consumes several input items at once', () => {
+			const result = vm.execute(['a', 'b', 'c']);
+			expect(result.success).toBe(true);
+			expect(result.acceptingTraces.length).toBe(1);
+			expect(result.acceptingTraces[0].head).toEqual([0, 1, 2, 5]);
+			expect(vm.execute(['a', 'b', 'd']).success).toBe(true);
+		});
+
+		it('passes data and options to the matcher', () => {
+			const vmWithOptions = whynot.compileVM<string, string>(assembler => {
+				assembler.testSequence(
+					2,
+					(items, data, options) => items.join('') === data + options,
+					'a'
+				);
+				assembler.accept();
+			});
+			expect(vmWithOptions.execute(['a', 'b'], 'b').success).toBe(true);
+			expect(vmWithOptions.execute(['a', 'b'], 'c').success).toBe(false);
+		});
+
+		it('ends the thread when the test fails', () => {
+			const result = vm.execute(['a', 'b', 'e']);
+			expect(result.success).toBe(false);
+			expect(result.isViablePrefix).toBe(false);
+		});
+
+		it('reports the sequence as pending if the input ends too soon', () => {
+			const result = vm.execute(['a', 'b']);
+			expect(result.success).toBe(false);
+			expect(result.isViablePrefix).toBe(true);
+			expect(result.pendingTests.map(test => test.data).sort()).toEqual(['abc', 'd']);
+		});
+
+		it('is also supported by recognize', () => {
+			['abc', 'abd', 'ab', 'abcd', 'abe', ''].forEach(input => {
+				expect(vm.recognize(input.split(''))).toBe(vm.execute(input.split('')).success);
+			});
+		});
+
+		it('is also supported by sessions', () => {
+			const session = vm.start();
+			session.feed('a');
+			session.feed('b');
+			const fork = session.fork();
+			session.feed('c');
+			expect(session.end().success).toBe(true);
+			fork.feed('d');
+			expect(fork.end().success).toBe(true);
+		});
+	});
+
+	describe('skip', () => {
+		let vm: VM<string>;
+		beforeEach(() => {
+			// "a", any two items, then "b"
+			vm = whynot.compileVM<string>(assembler => {
+				assembler.test(item => item === 'a');
+				assembler.skip(2);
+				assembler.test(item => item === 'b');
+				assembler.record(null, (_data, index) => index);
+				assembler.accept();
+			});
+		});
+
+		it('consumes input items without testing them', () => {
+			const result = vm.execute(['a', 'x', 'y', 'b']);
+			expect(result.success).toBe(true);
+			expect(result.acceptingTraces[0].head).toEqual([0, 1, 2, 3, 4]);
+			expect(result.acceptingTraces[0].records).toEqual([4]);
+			expect(vm.execute(['a', 'x', 'b']).success).toBe(false);
+			expect(vm.execute(['a', 'x', 'y', 'z', 'b']).success).toBe(false);
+		});
+
+		it('keeps the input viable if it ends while skipping', () => {
+			const result = vm.execute(['a', 'x']);
+			expect(result.success).toBe(false);
+			expect(result.isViablePrefix).toBe(true);
+			expect(result.pendingTests).toEqual([{ pc: 1, data: 2 }]);
+		});
+
+		it('keeps running while threads are scheduled for later generations', () => {
+			const skipOnly = whynot.compileVM<string>(assembler => {
+				assembler.skip(3);
+				assembler.accept();
+			});
+			expect(skipOnly.execute(['x', 'y', 'z']).success).toBe(true);
+			expect(skipOnly.execute(['x', 'y']).success).toBe(false);
+			expect(skipOnly.recognize(['x', 'y', 'z'])).toBe(true);
+			expect(skipOnly.recognize(['x', 'y', 'z', 'w'])).toBe(false);
+		});
+	});
+
+	describe('call', () => {
+		type Node = { name: string; children: Node[] };
+		function node(name: string, children: Node[] = []): Node {
+			return { name, children };
+		}
+
+		function getSectionChildren(item: Node) {
+			return item.name === 'section' ? item.children : null;
+		}
+
+		// Sections contain any number of paragraphs and sections, recording their names
+		let sectionProgram: any[];
+		let vm: VM<Node>;
+		beforeEach(() => {
+			const assembler = new Assembler<Node>();
+			const loop = assembler.label();
+			const paragraph = assembler.label();
+			const section = assembler.label();
+			const end = assembler.label();
+			assembler.bind(loop);
+			assembler.jump([paragraph, section, end]);
+			assembler.bind(paragraph);
+			assembler.test(item => item.name === 'p');
+			assembler.record('p');
+			assembler.jump([loop]);
+			assembler.bind(section);
+			assembler.call('section', getSectionChildren);
+			assembler.record('section');
+			assembler.jump([loop]);
+			assembler.bind(end);
+			assembler.accept();
+			sectionProgram = assembler.finalize();
+
+			vm = whynot.compileVM<Node>(
+				assembler => {
+					assembler.call('section', getSectionChildren);
+					assembler.accept();
+				},
+				undefined,
+				{ subPrograms: { section: sectionProgram } }
+			);
+		});
+
+		it('runs the sub-program over the children of the input item', () => {
+			expect(vm.execute([node('section', [node('p'), node('p')])]).success).toBe(true);
+			expect(vm.execute([node('section')]).success).toBe(true);
+			expect(vm.execute([node('section', [node('div')])]).success).toBe(false);
+		});
+
+		it('supports recursion', () => {
+			const input = [
+				node('section', [node('p'), node('section', [node('section', [node('p')])])])
+			];
+			expect(vm.execute(input).success).toBe(true);
+			const invalidInput = [node('section', [node('section', [node('div')])])];
+			expect(vm.execute(invalidInput).success).toBe(false);
+		});
+
+		it('ends the thread if the input item has no children', () => {
+			const result = vm.execute([node('p')]);
+			expect(result.success).toBe(false);
+			expect(result.failingTraces.length).toBe(1);
+		});
+
+		it('nests the traces of the sub-program', () => {
+			const result = vm.execute([node('section', [node('p'), node('section')])]);
+			expect(result.success).toBe(true);
+			const trace = result.acceptingTraces[0];
+			expect(trace.subTraces.length).toBe(1);
+			const subTrace = trace.subTraces[0];
+			expect(subTrace.records).toEqual(['p', 'section']);
+			expect(subTrace.subTraces.length).toBe(1);
+			expect(subTrace.subTraces[0].records).toEqual([]);
+		});
+
+		it('consumes a single input item', () => {
+			expect(vm.execute([node('section'), node('section')]).success).toBe(false);
+			expect(vm.execute([]).isViablePrefix).toBe(true);
+		});
+
+		it('is also supported by recognize and sessions', () => {
+			const input = [node('section', [node('p'), node('section', [node('p')])])];
+			expect(vm.recognize(input)).toBe(true);
+			expect(vm.recognize([node('section', [node('div')])])).toBe(false);
+			const session = vm.start();
+			session.feed(input[0]);
+			expect(session.end().success).toBe(true);
+		});
+
+		it('throws for unknown sub-programs', () => {
+			const unknownVM = whynot.compileVM<Node>(assembler => {
+				assembler.call('unknown', getSectionChildren);
+				assembler.accept();
+			});
+			expect(() => unknownVM.execute([node('section')])).toThrow(
+				'Unknown sub-program "unknown"'
+			);
+			expect(() => unknownVM.recognize([node('section')])).toThrow(
+				'Unknown sub-program "unknown"'
+			);
+		});
+	});
+
+	describe('lookahead', () => {
+		let vm: VM<string>;
+		beforeEach(() => {
+			// Any item followed by "a", or any item followed by anything but "a" and then "b"
+			vm = whynot.compileVM<string>(assembler => {
+				const positive = assembler.label();
+				const negative = assembler.label();
+				const end = assembler.label();
+				assembler.test(() => true);
+				assembler.jump([positive, negative]);
+				assembler.bind(positive);
+				assembler.lookahead(item => item === 'a', 'a');
+				assembler.test(() => true);
+				assembler.jump([end]);
+				assembler.bind(negative);
+				assembler.negativeLookahead(item => item === 'a', 'not a');
+				assembler.test(() => true);
+				assembler.test(item => item === 'b');
+				assembler.bind(end);
+				assembler.accept();
+			});
+		});
+
+		it('continues without consuming input if the lookahead matches', () => {
+			const result = vm.execute(['x', 'a']);
+			expect(result.success).toBe(true);
+			expect(result.acceptingTraces[0].head).toEqual([0, 1, 2, 3, 4, 8]);
+		});
+
+		it('continues without consuming input if the negative lookahead does not match', () => {
+			expect(vm.execute(['x', 'y', 'b']).success).toBe(true);
+			expect(vm.execute(['x', 'a', 'b']).success).toBe(false);
+		});
+
+		it('records which lookahead rejected the failing traces', () => {
+			const lookaheadVM = whynot.compileVM<string>(assembler => {
+				assembler.lookahead(item => item === 'a', 'a');
+				assembler.test(() => true);
+				assembler.negativeLookahead(item => item === 'b', 'not b');
+				assembler.test(() => true);
+				assembler.accept();
+			});
+			expect(lookaheadVM.execute(['a', 'c']).success).toBe(true);
+
+			const rejectedByLookahead = lookaheadVM.execute(['x']);
+			expect(rejectedByLookahead.failingTraces.length).toBe(1);
+			expect(rejectedByLookahead.failingTraces[0].rejectingLookahead).toEqual({
+				pc: 0,
+				data: 'a'
+			});
+
+			const rejectedByNegativeLookahead = lookaheadVM.execute(['a', 'b']);
+			expect(rejectedByNegativeLookahead.failingTraces.length).toBe(1);
+			expect(rejectedByNegativeLookahead.failingTraces[0].rejectingLookahead).toEqual({
+				pc: 2,
+				data: 'not b'
+			});
+
+			const failedTest = vm.execute(['x', 'y', 'c']);
+			expect(failedTest.failingTraces.length).toBe(1);
+			expect(failedTest.failingTraces[0].rejectingLookahead).toBe(null);
+		});
+
+		it('treats the end of the input as not matching', () => {
+			const result = vm.execute(['x']);
+			expect(result.success).toBe(false);
+			// The positive lookahead could still match if more input were added
+			expect(result.isViablePrefix).toBe(true);
+			expect(result.pendingTests.map(test => test.data).sort()).toEqual(['a', null]);
+		});
+
+		it('is also supported by recognize', () => {
+			['xa', 'xyb', 'xab', 'xy', 'x', ''].forEach(input => {
+				expect(vm.recognize(input.split(''))).toBe(vm.execute(input.split('')).success);
+			});
+		});
+	});
+
 	describe('jump', () => {
 		it('can create a single new thread', () => {
 			const vm = whynot.compileVM(assembler => {
@@ -282,6 +611,761 @@ describe('VM', () => {
 		});
 	});
 
+	describe('viable prefixes', () => {
+		function isLetter(item: string, letter: string) {
+			return item === letter;
+		}
+
+		let vm: VM<string>;
+		beforeEach(() => {
+			// a(b|c)d?
+			vm = whynot.compileVM<string>(assembler => {
+				assembler.test(isLetter, 'a');
+				assembler.jump([2, 4]);
+				assembler.test(isLetter, 'b');
+				assembler.jump([5]);
+				assembler.test(isLetter, 'c');
+				assembler.jump([6, 7]);
+				assembler.test(isLetter, 'd');
+				assembler.accept();
+			});
+		});
+
+		it('reports the tests pending at the end of the input', () => {
+			const result = vm.execute(createInput(['a']));
+			expect(result.success).toBe(false);
+			expect(result.isViablePrefix).toBe(true);
+			expect(result.pendingTests).toEqual([
+				{ pc: 2, data: 'b' },
+				{ pc: 4, data: 'c' }
+			]);
+			expect(result.pendingTraces.map(trace => flattenTrace(trace))).toEqual([
+				[[0, 1, 2]],
+				[[0, 1, 4]]
+			]);
+		});
+
+		it('reports pending tests for accepted input', () => {
+			const result = vm.execute(createInput(['a', 'c']));
+			expect(result.success).toBe(true);
+			expect(result.isViablePrefix).toBe(true);
+			expect(result.pendingTests).toEqual([{ pc: 6, data: 'd' }]);
+		});
+
+		it('does not report input that can not be completed', () => {
+			const result = vm.execute(createInput(['a', 'd']));
+			expect(result.isViablePrefix).toBe(false);
+			expect(result.pendingTests).toEqual([]);
+			expect(result.pendingTraces).toEqual([]);
+		});
+	});
+
+	describe('expected input', () => {
+		function isLetter(item: string, letter: string) {
+			return item === letter;
+		}
+
+		let vm: VM<string>;
+		beforeEach(() => {
+			// a(b|c)d
+			vm = whynot.compileVM<string>(assembler => {
+				assembler.test(isLetter, 'a');
+				assembler.jump([2, 4]);
+				assembler.test(isLetter, 'b');
+				assembler.jump([5]);
+				assembler.test(isLetter, 'c');
+				assembler.test(isLetter, 'd');
+				assembler.accept();
+			});
+		});
+
+		it('reports the tests attempted at the position where matching failed', () => {
+			const result = vm.execute(createInput(['a', 'x', 'd']));
+			expect(result.success).toBe(false);
+			expect(result.furthestInputIndex).toBe(1);
+			expect(result.expectedTests).toEqual([
+				{ pc: 2, data: 'b' },
+				{ pc: 4, data: 'c' }
+			]);
+		});
+
+		it('reports the tests expected after the end of the input', () => {
+			const result = vm.execute(createInput(['a', 'b']));
+			expect(result.success).toBe(false);
+			expect(result.furthestInputIndex).toBe(2);
+			expect(result.expectedTests).toEqual([{ pc: 5, data: 'd' }]);
+		});
+
+		it('reports the furthest index for successful results', () => {
+			const result = vm.execute(createInput(['a', 'c', 'd']));
+			expect(result.success).toBe(true);
+			expect(result.furthestInputIndex).toBe(3);
+			expect(result.expectedTests).toEqual([]);
+		});
+	});
+
+	describe('search', () => {
+		function isA(item: string) {
+			return item === 'a';
+		}
+		function isB(item: string) {
+			return item === 'b';
+		}
+
+		let vm: VM<string>;
+		beforeEach(() => {
+			// ab*
+			vm = whynot.compileVM<string>(assembler => {
+				const loop = assembler.label();
+				const end = assembler.label();
+				assembler.test(isA);
+				assembler.bind(loop);
+				assembler.jump([assembler.program.length + 1, end]);
+				assembler.test(isB);
+				assembler.jump([loop]);
+				assembler.bind(end);
+				assembler.accept();
+			});
+		});
+
+		it('finds all matches', () => {
+			const matches = vm.searchAll(createInput(['x', 'a', 'b', 'a', 'b', 'b']));
+			expect(matches.map(match => [match.start, match.end])).toEqual([
+				[1, 2],
+				[1, 3],
+				[3, 4],
+				[3, 5],
+				[3, 6]
+			]);
+		});
+
+		it('provides the trace for each match', () => {
+			const matches = vm.searchAll(createInput(['x', 'a', 'b']));
+			expect(matches.map(match => flattenTrace(match.trace))).toEqual([
+				[[0, 1, 4]],
+				[[0, 1, 2, 3, 1, 4]]
+			]);
+		});
+
+		it('finds the longest of the leftmost matches', () => {
+			const match = vm.search(createInput(['x', 'a', 'b', 'a', 'b', 'b'])) as SearchMatch;
+			expect(match.start).toBe(1);
+			expect(match.end).toBe(3);
+			expect(match.badness).toBe(0);
+		});
+
+		it('prefers the leftmost match with the lowest badness', () => {
+			const vm = whynot.compileVM<string>(assembler => {
+				const end = assembler.label();
+				const bad = assembler.label();
+				const b = assembler.label();
+				assembler.test(isA);
+				assembler.jump([bad, b]);
+				assembler.bind(bad);
+				assembler.bad();
+				assembler.jump([end]);
+				assembler.bind(b);
+				assembler.test(isB);
+				assembler.bind(end);
+				assembler.accept();
+			});
+			const match = vm.search(createInput(['a', 'b', 'a'])) as SearchMatch;
+			expect(match.start).toBe(0);
+			expect(match.end).toBe(2);
+			expect(match.badness).toBe(0);
+		});
+
+		it('prefers lower badness over longer matches', () => {
+			const vm = whynot.compileVM<string>(assembler => {
+				const end = assembler.label();
+				const b = assembler.label();
+				assembler.test(isA);
+				assembler.jump([end, b]);
+				assembler.bind(b);
+				assembler.bad();
+				assembler.test(isB);
+				assembler.bind(end);
+				assembler.accept();
+			});
+			const match = vm.search(createInput(['a', 'b'])) as SearchMatch;
+			expect(match.start).toBe(0);
+			expect(match.end).toBe(1);
+			expect(match.badness).toBe(0);
+		});
+
+		it('finds matches for programs that jump back to the first instruction', () => {
+			// a*b
+			const vm = whynot.compileVM<string>(assembler => {
+				const loop = assembler.label();
+				const body = assembler.label();
+				const end = assembler.label();
+				assembler.bind(loop);
+				assembler.jump([body, end]);
+				assembler.bind(body);
+				assembler.test(isA);
+				assembler.jump([loop]);
+				assembler.bind(end);
+				assembler.test(isB);
+				assembler.accept();
+			});
+			const matches = vm.searchAll(createInput(['x', 'a', 'a', 'b']));
+			expect(matches.map(match => [match.start, match.end])).toEqual([
+				[1, 4],
+				[2, 4],
+				[3, 4]
+			]);
+			// Each match has its own trace, containing only the path of its attempt
+			expect(matches.map(match => flattenTrace(match.trace))).toEqual([
+				[[0, 1, 2, 0, 1, 2, 0, 3, 4]],
+				[[0, 1, 2, 0, 3, 4]],
+				[[0, 3, 4]]
+			]);
+		});
+
+		it('finds the same matches as executing each part of the input', () => {
+			// Generate random programs using a fixed seed, so failures can be reproduced
+			let seed = 1;
+			function random(limit: number): number {
+				seed = (seed * 16807) % 2147483647;
+				return seed % limit;
+			}
+			function createProgram(): Instruction<string>[] {
+				const length = 2 + random(7);
+				const program: Instruction<string>[] = [];
+				for (let pc = 0; pc < length; ++pc) {
+					switch (random(4)) {
+						case 0:
+							program.push({ op: 'test', func: random(2) ? isA : isB });
+							break;
+						case 1:
+							program.push({ op: 'accept' });
+							break;
+						case 2:
+							program.push({ op: 'bad', data: 1 });
+							break;
+						default:
+							program.push({
+								op: 'jump',
+								data: [random(length + 1), random(length + 1)]
+							});
+					}
+				}
+				return program;
+			}
+
+			for (let i = 0; i < 500; ++i) {
+				const vm = new VM(createProgram());
+				const input: string[] = [];
+				for (let length = random(6); input.length < length; ) {
+					input.push(random(2) ? 'a' : 'b');
+				}
+				const expectedMatches: number[][] = [];
+				for (let start = 0; start <= input.length; ++start) {
+					for (let end = start; end <= input.length; ++end) {
+						if (vm.execute(input.slice(start, end)).success) {
+							expectedMatches.push([start, end]);
+						}
+					}
+				}
+				expect(vm.searchAll(input).map(match => [match.start, match.end])).toEqual(
+					expectedMatches
+				);
+			}
+		});
+
+		it('returns null if there is no match', () => {
+			expect(vm.search(createInput(['x', 'b']))).toBe(null);
+			expect(vm.searchAll(createInput([]))).toEqual([]);
+		});
+	});
+
+	describe('input sources', () => {
+		let vm: VM<any>;
+		beforeEach(() => {
+			vm = whynot.compileVM<any>(assembler => {
+				assembler.test(item => item === null);
+				assembler.test(item => item === undefined);
+				assembler.test(item => item === 0);
+				assembler.accept();
+			});
+		});
+
+		it('accepts arrays, which can contain null, undefined and falsy items', () => {
+			expect(vm.execute([null, undefined, 0]).success).toBe(true);
+			expect(vm.execute([null, undefined]).success).toBe(false);
+			expect(vm.execute([null, undefined, 0, 0]).success).toBe(false);
+		});
+
+		it('accepts iterables', () => {
+			function* generateInput() {
+				yield null;
+				yield undefined;
+				yield 0;
+			}
+			expect(vm.execute(generateInput()).success).toBe(true);
+			expect(vm.execute(new Set([null, undefined, 0])).success).toBe(true);
+		});
+
+		it('accepts iterators', () => {
+			const input = [null, undefined, 0];
+			let i = 0;
+			const iterator: Iterator<any> = {
+				next: () =>
+					i < input.length ? { done: false, value: input[i++] } : ({ done: true } as any)
+			};
+			expect(vm.execute(iterator).success).toBe(true);
+		});
+
+		it('treats null as the end of input when using a callback', () => {
+			const input = [null, undefined, 0];
+			let i = 0;
+			const result = vm.execute(() => input[i++]);
+			expect(result.success).toBe(false);
+			expect(result.isViablePrefix).toBe(true);
+			expect(result.furthestInputIndex).toBe(0);
+		});
+
+		it('stops reading input when no threads remain', () => {
+			let itemsRead = 0;
+			function* generateInput() {
+				for (;;) {
+					++itemsRead;
+					yield 1;
+				}
+			}
+			expect(vm.execute(generateInput()).success).toBe(false);
+			expect(itemsRead).toBe(1);
+		});
+
+		it('closes iterators when it stops reading input early', () => {
+			let isClosed = false;
+			function* generateInput() {
+				try {
+					for (;;) {
+						yield 1;
+					}
+				} finally {
+					isClosed = true;
+				}
+			}
+			vm.execute(generateInput());
+			expect(isClosed).toBe(true);
+			isClosed = false;
+			vm.execute(generateInput(), undefined, { firstMatch: true });
+			expect(isClosed).toBe(true);
+		});
+
+		it('does not close iterators that have ended', () => {
+			let returnCalls = 0;
+			const input = [null, undefined, 0];
+			let i = 0;
+			const iterator: Iterator<any> = {
+				next: () =>
+					i < input.length ? { done: false, value: input[i++] } : ({ done: true } as any),
+				return: () => {
+					++returnCalls;
+					return { done: true } as any;
+				}
+			};
+			expect(vm.execute(iterator).success).toBe(true);
+			expect(returnCalls).toBe(0);
+		});
+
+		describe('asynchronous', () => {
+			it('accepts async iterables', async () => {
+				async function* generateInput() {
+					yield null;
+					yield undefined;
+					yield await Promise.resolve(0);
+				}
+				const result = await vm.executeAsync(generateInput());
+				expect(result.success).toBe(true);
+				expect(result.acceptingTraces[0].head).toEqual([0, 1, 2, 3]);
+			});
+
+			it('accepts iterators returning promises', async () => {
+				const input = [null, undefined, 0];
+				let i = 0;
+				const iterator: AsyncIterator<any> = {
+					next: () =>
+						Promise.resolve(
+							i < input.length
+								? { done: false, value: input[i++] }
+								: ({ done: true } as any)
+						)
+				};
+				expect((await vm.executeAsync(iterator)).success).toBe(true);
+			});
+
+			it('accepts synchronous input', async () => {
+				expect((await vm.executeAsync([null, undefined, 0])).success).toBe(true);
+				expect((await vm.executeAsync([null, undefined])).isViablePrefix).toBe(true);
+			});
+
+			it('produces the same result as a synchronous execution', async () => {
+				const input = [null, undefined, 1];
+				const result = vm.execute(input);
+				const asyncResult = await vm.executeAsync(input);
+				expect(asyncResult.success).toBe(result.success);
+				expect(asyncResult.furthestInputIndex).toBe(result.furthestInputIndex);
+				expect(asyncResult.expectedTests).toEqual(result.expectedTests);
+				expect(asyncResult.failingTraces.map(trace => flattenTrace(trace))).toEqual(
+					result.failingTraces.map(trace => flattenTrace(trace))
+				);
+			});
+
+			it('can run interleaved with other executions', async () => {
+				async function* generateInput() {
+					yield null;
+					// Run another execution while the first is waiting for input
+					expect(vm.execute([null, undefined, 0]).success).toBe(true);
+					expect((await vm.executeAsync([null, 1])).success).toBe(false);
+					yield undefined;
+					yield 0;
+				}
+				const results = await Promise.all([
+					vm.executeAsync(generateInput()),
+					vm.executeAsync([null, undefined, 0])
+				]);
+				expect(results.map(result => result.success)).toEqual([true, true]);
+			});
+
+			it('closes async iterators when it stops reading input early', async () => {
+				let isClosed = false;
+				async function* generateInput() {
+					try {
+						for (;;) {
+							yield 1;
+						}
+					} finally {
+						isClosed = true;
+					}
+				}
+				expect((await vm.executeAsync(generateInput())).success).toBe(false);
+				// Closing is not awaited
+				await new Promise(resolve => setTimeout(resolve, 0));
+				expect(isClosed).toBe(true);
+			});
+
+			it('closes iterators when interrupted while waiting for input', async () => {
+				let returnCalls = 0;
+				const iterator: AsyncIterator<any> = {
+					next: () => new Promise<IteratorResult<any>>(() => {}),
+					return: () => {
+						++returnCalls;
+						return Promise.resolve({ done: true } as any);
+					}
+				};
+				const result = await vm.executeAsync(iterator, undefined, { timeout: 10 });
+				expect(result.limitExceeded).toBe('timeout');
+				expect(returnCalls).toBe(1);
+			});
+		});
+	});
+
+	describe('limits', () => {
+		// Matches any number of 'a', where each item can be matched in several ways
+		let vm: VM<string>;
+		beforeEach(() => {
+			vm = whynot.compileVM<string>(assembler => {
+				const loop = assembler.label();
+				const end = assembler.label();
+				const branches = [assembler.label(), assembler.label(), assembler.label()];
+				assembler.bind(loop);
+				assembler.jump(branches.concat([end]));
+				branches.forEach(branch => {
+					assembler.bind(branch);
+					assembler.test(item => item === 'a');
+					assembler.jump([loop]);
+				});
+				assembler.bind(end);
+				assembler.accept();
+			});
+		});
+
+		it('does not report a limit if none was exceeded', () => {
+			const result = vm.execute(['a', 'a'], undefined, {
+				maxThreads: 100,
+				maxInputLength: 2,
+				maxSteps: 100,
+				timeout: 10000,
+				signal: { aborted: false }
+			});
+			expect(result.success).toBe(true);
+			expect(result.limitExceeded).toBe(null);
+		});
+
+		it('can limit the number of threads per generation', () => {
+			const result = vm.execute(['a', 'a'], undefined, { maxThreads: 4 });
+			expect(result.success).toBe(false);
+			expect(result.limitExceeded).toBe('maxThreads');
+			expect(result.furthestInputIndex).toBe(0);
+		});
+
+		it('can limit the length of the input', () => {
+			let itemsRead = 0;
+			function* generateInput() {
+				for (;;) {
+					++itemsRead;
+					yield 'a';
+				}
+			}
+			const result = vm.execute(generateInput(), undefined, { maxInputLength: 3 });
+			expect(result.success).toBe(false);
+			expect(result.limitExceeded).toBe('maxInputLength');
+			expect(result.furthestInputIndex).toBe(2);
+			expect(itemsRead).toBe(4);
+		});
+
+		it('can limit the number of instructions run', () => {
+			// The complete execution runs 21 instructions, the last being the accept
+			expect(vm.execute(['a', 'a'], undefined, { maxSteps: 21 }).limitExceeded).toBe(null);
+			const result = vm.execute(['a', 'a'], undefined, { maxSteps: 20 });
+			expect(result.success).toBe(false);
+			expect(result.limitExceeded).toBe('maxSteps');
+			expect(result.furthestInputIndex).toBe(2);
+		});
+
+		it('can limit the time spent running', () => {
+			let now = 0;
+			const dateNow = Date.now;
+			Date.now = () => now;
+			try {
+				const slowVM = whynot.compileVM<string>(assembler => {
+					const loop = assembler.label();
+					assembler.bind(loop);
+					assembler.test(() => {
+						now += 10;
+						return true;
+					});
+					assembler.jump([loop]);
+				});
+				const result = slowVM.execute(['a', 'a', 'a', 'a', 'a'], undefined, {
+					timeout: 25
+				});
+				expect(result.limitExceeded).toBe('timeout');
+				expect(result.furthestInputIndex).toBe(2);
+			} finally {
+				Date.now = dateNow;
+			}
+		});
+
+		it('can be aborted', () => {
+			const signal = { aborted: false };
+			const abortingVM = whynot.compileVM<string>(assembler => {
+				const loop = assembler.label();
+				assembler.bind(loop);
+				assembler.test(item => {
+					signal.aborted = item === 'b';
+					return true;
+				});
+				assembler.jump([loop]);
+			});
+			const result = abortingVM.execute(['a', 'b', 'c', 'd'], undefined, { signal });
+			expect(result.limitExceeded).toBe('aborted');
+			expect(result.furthestInputIndex).toBe(1);
+		});
+
+		it('applies to asynchronous executions', async () => {
+			const result = await vm.executeAsync(['a', 'a', 'a'], undefined, {
+				maxInputLength: 2
+			});
+			expect(result.limitExceeded).toBe('maxInputLength');
+		});
+
+		describe('while waiting for asynchronous input', () => {
+			// Provides a single 'a', then never provides another item
+			function createStalledInput(): AsyncIterator<string> {
+				let isFirst = true;
+				return {
+					next: () => {
+						if (isFirst) {
+							isFirst = false;
+							return Promise.resolve({ done: false, value: 'a' });
+						}
+						return new Promise<IteratorResult<string>>(() => {});
+					}
+				};
+			}
+
+			it('can be aborted', async () => {
+				const signal = { aborted: false };
+				setTimeout(() => {
+					signal.aborted = true;
+				}, 20);
+				const result = await vm.executeAsync(createStalledInput(), undefined, { signal });
+				expect(result.limitExceeded).toBe('aborted');
+				expect(result.furthestInputIndex).toBe(0);
+			});
+
+			it('can be aborted using abort events', async () => {
+				const listeners: (() => void)[] = [];
+				const signal = {
+					aborted: false,
+					addEventListener: (_type: 'abort', listener: () => void) => {
+						listeners.push(listener);
+					},
+					removeEventListener: (_type: 'abort', listener: () => void) => {
+						listeners.splice(listeners.indexOf(listener), 1);
+					}
+				};
+				setTimeout(() => {
+					signal.aborted = true;
+					listeners.slice().forEach(listener => listener());
+				}, 20);
+				const result = await vm.executeAsync(createStalledInput(), undefined, { signal });
+				expect(result.limitExceeded).toBe('aborted');
+				expect(listeners.length).toBe(0);
+			});
+
+			it('can time out', async () => {
+				const result = await vm.executeAsync(createStalledInput(), undefined, {
+					timeout: 20
+				});
+				expect(result.limitExceeded).toBe('timeout');
+				expect(result.furthestInputIndex).toBe(0);
+			});
+
+			it('does not time out if input arrives in time', async () => {
+				const result = await vm.executeAsync(['a', 'a'], undefined, {
+					timeout: 10000,
+					signal: { aborted: false }
+				});
+				expect(result.success).toBe(true);
+				expect(result.limitExceeded).toBe(null);
+			});
+		});
+
+		it('applies to sessions', () => {
+			const session = vm.start(undefined, { maxInputLength: 2 });
+			session.feed('a');
+			session.feed('a');
+			expect(session.getResult().success).toBe(true);
+			session.feed('a');
+			session.feed('a');
+			const result = session.end();
+			expect(result.success).toBe(false);
+			expect(result.limitExceeded).toBe('maxInputLength');
+			expect(result.furthestInputIndex).toBe(1);
+		});
+	});
+
+	describe('pruning', () => {
+		// Matches any sequence of 'a', allowing other items to be substituted at a cost
+		function compile(assembler: Assembler<string>) {
+			const loop = assembler.label();
+			const match = assembler.label();
+			const substitute = assembler.label();
+			const end = assembler.label();
+			assembler.bind(loop);
+			assembler.jump([match, substitute, end]);
+			assembler.bind(match);
+			assembler.test(item => item === 'a');
+			assembler.jump([loop]);
+			assembler.bind(substitute);
+			assembler.bad(1);
+			assembler.test(() => true);
+			assembler.jump([loop]);
+			assembler.bind(end);
+			assembler.accept();
+		}
+
+		it('does not prune by default', () => {
+			const result = whynot.compileVM(compile).execute('abab'.split(''));
+			expect(result.success).toBe(true);
+			expect(result.isPruned).toBe(false);
+		});
+
+		it('can drop threads with a badness above the maximum', () => {
+			const vm = whynot.compileVM(compile, undefined, { maxBadness: 1 });
+			const result = vm.execute('abab'.split(''));
+			expect(result.success).toBe(false);
+			expect(result.isPruned).toBe(true);
+			expect(result.furthestInputIndex).toBe(3);
+
+			const resultWithinBudget = vm.execute('aaba'.split(''));
+			expect(resultWithinBudget.success).toBe(true);
+			expect(resultWithinBudget.isPruned).toBe(true);
+			expect((resultWithinBudget.getBestPath() as TracePath).badness).toBe(1);
+		});
+
+		it('can limit the number of threads carried over to the next input item', () => {
+			const vm = whynot.compileVM(compile, undefined, { beamWidth: 1 });
+			const input = 'abababab'.split('');
+			const result = vm.execute(input);
+			expect(result.success).toBe(true);
+			expect(result.isPruned).toBe(true);
+			expect((result.getBestPath() as TracePath).badness).toBe(4);
+			expect(result.acceptingTraces[0].countPaths()).toBeLessThan(
+				whynot
+					.compileVM(compile)
+					.execute(input)
+					.acceptingTraces[0].countPaths()
+			);
+		});
+
+		it('rejects invalid beam widths', () => {
+			expect(() => whynot.compileVM(compile, undefined, { beamWidth: 0 })).toThrow(
+				'The beam width should be a positive integer'
+			);
+		});
+	});
+
+	describe('first match', () => {
+		let recordCalls: number;
+		let vm: VM<string>;
+		beforeEach(() => {
+			recordCalls = 0;
+			vm = whynot.compileVM<string>(assembler => {
+				const left = assembler.label();
+				const right = assembler.label();
+				assembler.test(item => item === 'a');
+				assembler.jump([left, right]);
+				assembler.bind(left);
+				assembler.record('left', data => {
+					++recordCalls;
+					return data;
+				});
+				assembler.accept();
+				assembler.bind(right);
+				assembler.accept();
+			});
+		});
+
+		it('determines whether the input is accepted', () => {
+			expect(vm.execute(['a'], undefined, { firstMatch: true }).success).toBe(true);
+			expect(vm.execute(['b'], undefined, { firstMatch: true }).success).toBe(false);
+			expect(vm.execute(['a', 'a'], undefined, { firstMatch: true }).success).toBe(false);
+			expect(vm.execute([], undefined, { firstMatch: true }).isViablePrefix).toBe(true);
+		});
+
+		it('stops at the first accepting thread', () => {
+			expect(vm.execute(['a']).acceptingTraces.length).toBe(2);
+			expect(vm.execute(['a'], undefined, { firstMatch: true }).acceptingTraces.length).toBe(
+				1
+			);
+		});
+
+		it('skips records', () => {
+			const result = vm.execute(['a'], undefined, { firstMatch: true });
+			expect(recordCalls).toBe(0);
+			expect(result.acceptingTraces[0].records).toEqual([]);
+		});
+
+		it('returns the path of the first accepting thread', () => {
+			const result = vm.execute(['a'], undefined, { firstMatch: true });
+			expect(result.acceptingTraces[0].head).toEqual([0, 1, 4]);
+			expect(result.acceptingTraces[0].prefixes).toEqual([]);
+			expect(result.failingTraces).toEqual([]);
+		});
+
+		it('reports exceeded limits', () => {
+			const result = vm.execute(['a'], undefined, { firstMatch: true, maxSteps: 2 });
+			expect(result.success).toBe(false);
+			expect(result.limitExceeded).toBe('maxSteps');
+		});
+	});
+
 	describe('reentrancy', () => {
 		let vm: VM<any[]>;
 		function getVM(): VM<any[]> {
@@ -0,0 +1,59 @@
+import * as bigNatural from '../src/bigNatural';
+
+describe('bigNatural', () => {
+	it('converts from and to numbers', () => {
+		expect(bigNatural.fromNumber(0)).toEqual([]);
+		expect(bigNatural.toNumber(bigNatural.fromNumber(123456789012345))).toBe(123456789012345);
+		expect(() => bigNatural.fromNumber(-1)).toThrow('Expected a non-negative safe integer');
+		expect(() => bigNatural.fromNumber(0.5)).toThrow('Expected a non-negative safe integer');
+	});
+
+	it('converts from and to strings', () => {
+		expect(bigNatural.toString(bigNatural.fromString('0'))).toBe('0');
+		expect(bigNatural.toString(bigNatural.fromString('000123'))).toBe('123');
+		expect(bigNatural.toString(bigNatural.fromString('12345678901234567890000001'))).toBe(
+			'12345678901234567890000001'
+		);
+		expect(() => bigNatural.fromString('-1')).toThrow('Expected a string of decimal digits');
+	});
+
+	it('adds', () => {
+		const a = bigNatural.fromString('9999999999999999999999');
+		expect(bigNatural.toString(bigNatural.add(a, bigNatural.ONE))).toBe(
+			'10000000000000000000000'
+		);
+		expect(bigNatural.add(bigNatural.ZERO, bigNatural.ZERO)).toEqual([]);
+	});
+
+	it('subtracts', () => {
+		const a = bigNatural.fromString('10000000000000000000000');
+		expect(bigNatural.toString(bigNatural.subtract(a, bigNatural.ONE))).toBe(
+			'9999999999999999999999'
+		);
+		expect(bigNatural.subtract(a, a)).toEqual([]);
+		expect(() => bigNatural.subtract(bigNatural.ONE, a)).toThrow(
+			'Can not subtract a larger number'
+		);
+	});
+
+	it('compares', () => {
+		const small = bigNatural.fromString('99999999');
+		const large = bigNatural.fromString('100000000');
+		expect(bigNatural.compare(small, large)).toBeLessThan(0);
+		expect(bigNatural.compare(large, small)).toBeGreaterThan(0);
+		expect(bigNatural.compare(large, bigNatural.fromNumber(100000000))).toBe(0);
+	});
+
+	it('draws random numbers below a limit', () => {
+		const limit = bigNatural.fromString('10000001');
+		let i = 0;
+		const values = [0.99, 0.99, 0.5, 0.25];
+		// The first draw exceeds the limit and is rejected
+		expect(bigNatural.toString(bigNatural.randomBelow(limit, () => values[i++]))).toBe(
+			'5000000'
+		);
+		expect(() => bigNatural.randomBelow(bigNatural.ZERO, Math.random)).toThrow(
+			'Can not draw a random number below zero'
+		);
+	});
+});
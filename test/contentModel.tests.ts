@@ -0,0 +1,141 @@
+import {
+	Assembler,
+	compileContentModel,
+	compileContentModelVM,
+	ContentModel,
+	ContentModelValidator,
+	PCDATA
+} from '../src/index';
+
+describe('contentModel', () => {
+	function element(name: string): ContentModel {
+		return { type: 'element', name };
+	}
+
+	// (head, (p | list)*, foot?)
+	const bodyModel: ContentModel = {
+		type: 'sequence',
+		items: [
+			element('head'),
+			{
+				type: 'repetition',
+				item: { type: 'choice', items: [element('p'), element('list')] },
+				occurrence: '*'
+			},
+			{ type: 'repetition', item: element('foot'), occurrence: '?' }
+		]
+	};
+
+	describe('compileContentModelVM()', () => {
+		function expectMatches(model: ContentModel, inputs: string[][], expected: boolean[]) {
+			const vm = compileContentModelVM(model);
+			expect(inputs.map(input => vm.execute(input).success)).toEqual(expected);
+		}
+
+		it('matches sequences, choices and occurrence indicators', () => {
+			expectMatches(
+				bodyModel,
+				[
+					['head'],
+					['head', 'p', 'list', 'p', 'foot'],
+					['head', 'foot', 'p'],
+					['p'],
+					['head', 'foot', 'foot']
+				],
+				[true, true, false, false, false]
+			);
+			expectMatches(
+				{ type: 'repetition', item: element('item'), occurrence: '+' },
+				[[], ['item'], ['item', 'item']],
+				[false, true, true]
+			);
+		});
+
+		it('matches EMPTY and ANY', () => {
+			expectMatches({ type: 'empty' }, [[], ['a'], [PCDATA]], [true, false, false]);
+			expectMatches({ type: 'any' }, [[], ['a', PCDATA, 'b']], [true, true]);
+		});
+
+		it('matches text and mixed content', () => {
+			expectMatches(
+				{ type: 'pcdata' },
+				[[], [PCDATA], [PCDATA, PCDATA], ['b']],
+				[true, true, true, false]
+			);
+			expectMatches(
+				{ type: 'mixed', names: ['b', 'i'] },
+				[[], [PCDATA, 'b', PCDATA, 'i', 'b'], ['b', 'p']],
+				[true, true, false]
+			);
+		});
+
+		it('reports the expected children', () => {
+			const vm = compileContentModelVM(bodyModel);
+			const result = vm.execute(['head', 'foot', 'p']);
+			expect(result.furthestInputIndex).toBe(2);
+			expect(result.expectedTests.map(test => test.data)).toEqual([]);
+			expect(vm.execute(['head', 'title']).expectedTests.map(test => test.data)).toEqual([
+				'p',
+				'list',
+				'foot'
+			]);
+		});
+
+		it('throws for unknown content model types', () => {
+			expect(() => compileContentModelVM({ type: 'unknown' } as any)).toThrow(
+				'Unknown content model type "unknown"'
+			);
+		});
+	});
+
+	describe('compileContentModel()', () => {
+		it('appends the content model to an existing program', () => {
+			const assembler = new Assembler<string>();
+			compileContentModel(assembler, element('a'));
+			compileContentModel(assembler, element('b'));
+			assembler.accept();
+			const program = assembler.finalize();
+			expect(program.map(instruction => instruction.data)).toEqual(['a', 'b', null]);
+		});
+	});
+
+	describe('ContentModelValidator', () => {
+		const validator = new ContentModelValidator(bodyModel);
+
+		it('accepts valid children', () => {
+			expect(validator.validate(['head', 'p', 'foot'])).toEqual({
+				isValid: true,
+				unexpectedChild: null,
+				missingChildren: []
+			});
+		});
+
+		it('reports missing required children', () => {
+			expect(validator.validate(['p', 'list'])).toEqual({
+				isValid: false,
+				unexpectedChild: null,
+				missingChildren: [{ index: 0, name: 'head' }]
+			});
+			const sequenceValidator = new ContentModelValidator({
+				type: 'sequence',
+				items: [element('a'), element('b'), element('c')]
+			});
+			expect(sequenceValidator.validate(['b']).missingChildren).toEqual([
+				{ index: 0, name: 'a' },
+				{ index: 1, name: 'c' }
+			]);
+		});
+
+		it('reports unexpected children', () => {
+			expect(validator.validate(['head', 'foot', 'p'])).toEqual({
+				isValid: false,
+				unexpectedChild: { index: 2, name: 'p' },
+				missingChildren: []
+			});
+			expect(validator.validate(['head', PCDATA]).unexpectedChild).toEqual({
+				index: 1,
+				name: PCDATA
+			});
+		});
+	});
+});
@@ -0,0 +1,115 @@
+import {
+	Assembler,
+	createRepairingProgram,
+	RepairOptions,
+	validateProgram,
+	VM
+} from '../src/index';
+
+describe('createRepairingProgram()', () => {
+	// Matches the sequence a, b, c
+	function compileSequence() {
+		const assembler = new Assembler<string>();
+		['a', 'b', 'c'].forEach(expected => {
+			assembler.test(item => item === expected, expected);
+		});
+		assembler.accept();
+		return assembler.finalize();
+	}
+
+	function repair(input: string[], options?: RepairOptions) {
+		const vm = new VM(createRepairingProgram(compileSequence(), options));
+		const path = vm.execute(input).getBestPath();
+		return path === null ? null : { badness: path.badness, edits: path.records };
+	}
+
+	it('does not change matching input', () => {
+		expect(repair(['a', 'b', 'c'])).toEqual({ badness: 0, edits: [] });
+	});
+
+	it('inserts missing items', () => {
+		expect(repair(['a', 'c'])).toEqual({
+			badness: 1,
+			edits: [{ type: 'insert', index: 1, data: 'b' }]
+		});
+		expect(repair([])).toEqual({
+			badness: 3,
+			edits: [
+				{ type: 'insert', index: 0, data: 'a' },
+				{ type: 'insert', index: 0, data: 'b' },
+				{ type: 'insert', index: 0, data: 'c' }
+			]
+		});
+	});
+
+	it('deletes extra items', () => {
+		expect(repair(['x', 'a', 'b', 'c', 'y', 'z'])).toEqual({
+			badness: 3,
+			edits: [
+				{ type: 'delete', index: 0 },
+				{ type: 'delete', index: 4 },
+				{ type: 'delete', index: 5 }
+			]
+		});
+	});
+
+	it('replaces mismatching items', () => {
+		expect(repair(['a', 'x', 'c'])).toEqual({
+			badness: 1,
+			edits: [{ type: 'replace', index: 1, data: 'b' }]
+		});
+	});
+
+	it('uses the given costs', () => {
+		const result = repair(['a', 'x', 'c'], { replaceCost: 3 });
+		expect(result!.badness).toBe(2);
+		expect(result!.edits.map((edit: any) => edit.type).sort()).toEqual(['delete', 'insert']);
+		expect(repair(['a', 'c'], { insertCost: 5, replaceCost: 5 })).toEqual({
+			badness: 5,
+			edits: [{ type: 'insert', index: 1, data: 'b' }]
+		});
+	});
+
+	it('keeps jumps, records and badness of the original program', () => {
+		const assembler = new Assembler<string>();
+		const loop = assembler.label();
+		const body = assembler.label();
+		const end = assembler.label();
+		assembler.bind(loop);
+		assembler.jump([body, end]);
+		assembler.bind(body);
+		assembler.test(item => item === 'x', 'x');
+		assembler.jump([loop]);
+		assembler.bind(end);
+		assembler.bad(2);
+		assembler.record('marker');
+		assembler.test(item => item === 'a', 'a');
+		assembler.accept();
+		const program = createRepairingProgram(assembler.finalize());
+		expect(
+			validateProgram(program).filter(diagnostic => diagnostic.severity === 'error')
+		).toEqual([]);
+		const path = new VM(program).execute(['x', 'x', 'b']).getBestPath();
+		expect(path!.badness).toBe(3);
+		expect(path!.records).toEqual(['marker', { type: 'replace', index: 2, data: 'a' }]);
+	});
+
+	it('ends threads jumping to the end of the program', () => {
+		const program = compileSequence();
+		program.unshift({ op: 'jump', func: null, data: [1, program.length + 1], length: 0 });
+		const repairingProgram = createRepairingProgram(program);
+		expect(
+			validateProgram(repairingProgram).filter(diagnostic => diagnostic.severity === 'error')
+		).toEqual([]);
+		const path = new VM(repairingProgram).execute(['a', 'c']).getBestPath();
+		expect(path!.records).toEqual([{ type: 'insert', index: 1, data: 'b' }]);
+	});
+
+	it('throws for jump targets outside the program', () => {
+		const program = compileSequence();
+		program.unshift({ op: 'jump', func: null, data: [1, program.length + 2], length: 0 });
+		expect(() => createRepairingProgram(program)).toThrow(
+			'Jump target 6 is outside the program'
+		);
+	});
+});
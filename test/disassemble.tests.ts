@@ -0,0 +1,114 @@
+import Assembler from '../src/Assembler';
+import disassemble from '../src/disassemble';
+import VM from '../src/VM';
+
+describe('disassemble', () => {
+	let assembler: Assembler<string>;
+	beforeEach(() => {
+		assembler = new Assembler<string>();
+	});
+
+	function isA(input: string) {
+		return input === 'a';
+	}
+
+	function isB(input: string) {
+		return input === 'b';
+	}
+
+	it('prints one line per instruction', () => {
+		assembler.jump([1, 4]);
+		assembler.test(isA, 'a');
+		assembler.bad(2);
+		assembler.jump([0]);
+		assembler.record({ missing: 'b' });
+		assembler.fail(() => false);
+		assembler.accept();
+		expect(disassemble(assembler.program)).toBe(
+			[
+				'  0 jump   1, 4',
+				'  1 test   "a" ; isA',
+				'  2 bad    2',
+				'  3 jump   0',
+				'  4 record {"missing":"b"} ; defaultRecorder',
+				'  5 fail',
+				'  6 accept'
+			].join('\n')
+		);
+	});
+
+	it('prints the length of testSequence instructions and the count of skip instructions', () => {
+		function isAb(inputItems: string[]) {
+			return inputItems.join('') === 'ab';
+		}
+		assembler.testSequence(2, isAb, 'ab');
+		assembler.testSequence(2, isAb);
+		assembler.skip(3);
+		assembler.accept();
+		expect(disassemble(assembler.program)).toBe(
+			[
+				'  0 testSequence 2, "ab" ; isAb',
+				'  1 testSequence 2 ; isAb',
+				'  2 skip   3',
+				'  3 accept'
+			].join('\n')
+		);
+	});
+
+	it('pads instruction indices', () => {
+		for (let i = 0; i < 10; ++i) {
+			assembler.jump([i + 1]);
+		}
+		assembler.accept();
+		const lines = disassemble(assembler.program).split('\n');
+		expect(lines[0]).toBe('   0 jump   1');
+		expect(lines[10]).toBe('  10 accept');
+	});
+
+	it('can use custom descriptions', () => {
+		assembler.test(isA);
+		assembler.test(isB);
+		assembler.accept();
+		expect(
+			disassemble(assembler.program, null, (instruction, pc) => (pc === 0 ? 'first' : null))
+		).toBe(['  0 test   ; first', '  1 test   ; isB', '  2 accept'].join('\n'));
+	});
+
+	it('formats unusual data', () => {
+		const cyclic: any = {};
+		cyclic.self = cyclic;
+		assembler.test(isA, cyclic);
+		assembler.test(isA, isB);
+		assembler.test(isA, undefined);
+		expect(disassemble(assembler.program)).toBe(
+			[
+				'  0 test   [object Object] ; isA',
+				'  1 test   [function isB] ; isA',
+				'  2 test   ; isA'
+			].join('\n')
+		);
+	});
+
+	it('marks instructions visited by a trace', () => {
+		assembler.jump([1, 3]);
+		assembler.test(isA);
+		assembler.jump([5]);
+		assembler.test(isB);
+		assembler.jump([5]);
+		assembler.accept();
+		const vm = new VM(assembler.program);
+		const input = ['b'];
+		let i = 0;
+		const result = vm.execute(() => input[i++] || null);
+		expect(disassemble(assembler.program, result.acceptingTraces[0])).toBe(
+			[
+				'* 0 jump   1, 3',
+				'  1 test   ; isA',
+				'  2 jump   5',
+				'* 3 test   ; isB',
+				'* 4 jump   5',
+				'* 5 accept'
+			].join('\n')
+		);
+	});
+});
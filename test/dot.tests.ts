@@ -0,0 +1,84 @@
+import Assembler from '../src/Assembler';
+import { programToDot, resultToDot } from '../src/dot';
+import VM from '../src/VM';
+
+describe('DOT export', () => {
+	let assembler: Assembler<string>;
+	beforeEach(() => {
+		assembler = new Assembler<string>();
+	});
+
+	function isA(input: string) {
+		return input === 'a';
+	}
+
+	function createInput(array: string[]): () => string | null {
+		let i = 0;
+		return () => array[i++] || null;
+	}
+
+	describe('programToDot()', () => {
+		it('exports the control-flow graph', () => {
+			assembler.jump([1, 3]);
+			assembler.test(isA, 'a "quoted"');
+			assembler.jump([0]);
+			assembler.record('done');
+			assembler.accept();
+			expect(programToDot(assembler.program)).toBe(
+				[
+					'digraph program {',
+					'\tnode [shape=box];',
+					'\t0 [label="0: jump 1, 3"];',
+					'\t1 [label="1: test \\"a \\\\\\"quoted\\\\\\"\\"\\nisA"];',
+					'\t2 [label="2: jump 0"];',
+					'\t3 [label="3: record \\"done\\"\\ndefaultRecorder"];',
+					'\t4 [label="4: accept", peripheries="2"];',
+					'\t0 -> 1;',
+					'\t0 -> 3;',
+					'\t1 -> 2 [style=dashed];',
+					'\t2 -> 0;',
+					'\t3 -> 4;',
+					'}'
+				].join('\n')
+			);
+		});
+
+		it('omits edges leaving the program', () => {
+			assembler.test(isA);
+			expect(programToDot(assembler.program)).not.toContain('->');
+		});
+	});
+
+	describe('resultToDot()', () => {
+		it('exports accepting traces', () => {
+			assembler.jump([1, 3]);
+			assembler.bad(2);
+			assembler.jump([3]);
+			assembler.record('meep');
+			assembler.accept();
+			const result = new VM(assembler.program).execute(createInput([]));
+			const dot = resultToDot(result);
+			expect(dot).toMatch(/^digraph trace \{\n\tnode \[shape=box\];\n/);
+			expect(dot).toContain(
+				'[label="head: 3, 4\\nrecords: \\"meep\\"\\nbadness: 2", peripheries="2"];'
+			);
+			expect(dot).toContain('[label="head: 0\\nbadness: 0"];');
+			expect(dot).toContain('[label="head: 0, 1, 2\\nbadness: 2"];');
+			expect(dot.match(/ -> /g)).toHaveLength(2);
+		});
+
+		it('exports failing traces', () => {
+			assembler.test(isA);
+			assembler.accept();
+			const result = new VM(assembler.program).execute(createInput(['b']));
+			expect(resultToDot(result)).toBe(
+				[
+					'digraph trace {',
+					'\tnode [shape=box];',
+					'\tt0 [label="head: 0\\nbadness: 0", color="red"];',
+					'}'
+				].join('\n')
+			);
+		});
+	});
+});
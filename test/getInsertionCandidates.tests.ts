@@ -0,0 +1,81 @@
+import { Assembler, compileContentModel, ContentModel, getInsertionCandidates } from '../src/index';
+
+describe('getInsertionCandidates()', () => {
+	function compileProgram(model: ContentModel) {
+		const assembler = new Assembler<string>();
+		compileContentModel(assembler, model);
+		assembler.accept();
+		return assembler.finalize();
+	}
+
+	function element(name: string): ContentModel {
+		return { type: 'element', name };
+	}
+
+	// (title, (para | note)*, footer)
+	const program = compileProgram({
+		type: 'sequence',
+		items: [
+			element('title'),
+			{
+				type: 'repetition',
+				item: { type: 'choice', items: [element('para'), element('note')] },
+				occurrence: '*'
+			},
+			element('footer')
+		]
+	});
+
+	it('returns the items that keep the input valid', () => {
+		expect(getInsertionCandidates(program, ['title', 'para', 'footer'], 1)).toEqual([
+			{ data: 'para', isAccepted: true, badness: 0 },
+			{ data: 'note', isAccepted: true, badness: 0 }
+		]);
+	});
+
+	it('returns the items that keep the input completable', () => {
+		expect(getInsertionCandidates(program, ['title'], 1)).toEqual([
+			{ data: 'footer', isAccepted: true, badness: 0 },
+			{ data: 'para', isAccepted: false, badness: 0 },
+			{ data: 'note', isAccepted: false, badness: 0 }
+		]);
+		expect(getInsertionCandidates(program, [], 0)).toEqual([
+			{ data: 'title', isAccepted: false, badness: 0 }
+		]);
+	});
+
+	it('does not return items after which the input can no longer be accepted', () => {
+		expect(getInsertionCandidates(program, ['title', 'footer'], 2)).toEqual([]);
+		expect(getInsertionCandidates(program, ['title', 'footer'], 0)).toEqual([]);
+		expect(getInsertionCandidates(program, ['footer'], 1)).toEqual([]);
+	});
+
+	it('ranks candidates by badness', () => {
+		const assembler = new Assembler<string>();
+		const good = assembler.label();
+		const bad = assembler.label();
+		const end = assembler.label();
+		assembler.jump([bad, good]);
+		assembler.bind(bad);
+		assembler.bad(2);
+		assembler.test(item => item === 'a', 'a');
+		assembler.jump([end]);
+		assembler.bind(good);
+		assembler.test(item => item === 'b', 'b');
+		assembler.bind(end);
+		assembler.accept();
+		expect(getInsertionCandidates(assembler.finalize(), [], 0)).toEqual([
+			{ data: 'b', isAccepted: true, badness: 0 },
+			{ data: 'a', isAccepted: true, badness: 2 }
+		]);
+	});
+
+	it('throws for invalid indices', () => {
+		const program = compileProgram(element('a'));
+		[-1, 0.5, 2].forEach(index => {
+			expect(() => getInsertionCandidates(program, ['a'], index)).toThrow(
+				'The insertion index should be an integer between 0 and the input length'
+			);
+		});
+	});
+});
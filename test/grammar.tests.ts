@@ -0,0 +1,166 @@
+import { Assembler, compileGrammar, compileGrammarVM, parseGrammar } from '../src/index';
+
+describe('grammar', () => {
+	const statementGrammar = `
+		statement = "let" IDENT "=" value ";" ;
+		value ::= NUMBER | IDENT | list ;
+		list = "[" (NUMBER ("," NUMBER)*)? "]" ;
+	`;
+
+	function equals(token: string) {
+		return (item: string) => item === token;
+	}
+
+	const terminals = {
+		let: equals('let'),
+		'=': equals('='),
+		';': equals(';'),
+		'[': equals('['),
+		']': equals(']'),
+		',': equals(','),
+		NUMBER: (item: string) => /^\d+$/.test(item),
+		IDENT: (item: string) => /^[a-z]+$/.test(item) && item !== 'let'
+	};
+
+	describe('parseGrammar()', () => {
+		it('parses rules, resolving names to rules or terminals', () => {
+			expect(parseGrammar('a = b c?, "d"* | (e+) ; b ::= ;')).toEqual({
+				rules: [
+					{
+						name: 'a',
+						expression: {
+							type: 'choice',
+							alternatives: [
+								{
+									type: 'sequence',
+									items: [
+										{ type: 'rule', name: 'b' },
+										{
+											type: 'repetition',
+											item: { type: 'terminal', name: 'c' },
+											occurrence: '?'
+										},
+										{
+											type: 'repetition',
+											item: { type: 'terminal', name: 'd' },
+											occurrence: '*'
+										}
+									]
+								},
+								{
+									type: 'repetition',
+									item: { type: 'terminal', name: 'e' },
+									occurrence: '+'
+								}
+							]
+						}
+					},
+					{ name: 'b', expression: { type: 'sequence', items: [] } }
+				]
+			});
+		});
+
+		it('always treats quoted strings as terminals', () => {
+			expect(parseGrammar('a = "b"; b = c;').rules[0].expression).toEqual({
+				type: 'terminal',
+				name: 'b'
+			});
+		});
+
+		it('throws for invalid grammars', () => {
+			[
+				['', 'Expected at least one rule at position 0'],
+				['a = b', 'Expected ";" in rule "a" at position 5'],
+				['a b;', 'Expected "=" in rule "a" at position 2'],
+				['= b;', 'Expected a rule name at position 0'],
+				['a = (b;', 'Expected ")" in rule "a" at position 6'],
+				['a = b**;', 'Nothing to repeat in rule "a" at position 6'],
+				['a = "b;', 'Unterminated string in rule "a" at position 4'],
+				['a = "";', 'Empty string in rule "a" at position 4'],
+				['a = b; a = c;', 'Duplicate rule "a" at position 7'],
+				['a = b; b = c a?;', 'Rule "a" is recursive (a > b > a)'],
+				['a = a;', 'Rule "a" is recursive (a > a)']
+			].forEach(([source, message]) => {
+				expect(() => parseGrammar(source)).toThrow('Invalid grammar: ' + message);
+			});
+		});
+	});
+
+	describe('compileGrammarVM()', () => {
+		it('matches the grammar', () => {
+			const vm = compileGrammarVM(statementGrammar, terminals);
+			[
+				['let x = 1 ;', true],
+				['let x = y ;', true],
+				['let x = [ ] ;', true],
+				['let x = [ 1 , 2 , 3 ] ;', true],
+				['let x = [ 1 , ] ;', false],
+				['let let = 1 ;', false],
+				['let x = 1', false]
+			].forEach(([source, expected]) => {
+				expect({
+					source,
+					success: vm.execute((source as string).split(' ')).success
+				}).toEqual({ source, success: expected });
+			});
+		});
+
+		it('passes terminals and rule names to test instructions', () => {
+			const vm = compileGrammarVM(statementGrammar, terminals);
+			const result = vm.execute(['let', 'x', '=', '[', '1', '2']);
+			expect(result.furthestInputIndex).toBe(5);
+			expect(result.expectedTests.map(test => test.data)).toEqual([
+				{ terminal: ',', rules: ['statement', 'value', 'list'] },
+				{ terminal: ']', rules: ['statement', 'value', 'list'] }
+			]);
+		});
+
+		it('can record the start and end of each rule', () => {
+			const vm = compileGrammarVM(statementGrammar, terminals, { recordRules: true });
+			const path = vm.execute(['let', 'x', '=', '[', ']', ';']).getBestPath();
+			expect(path!.records).toEqual([
+				{ type: 'start', rule: 'statement', index: 0 },
+				{ type: 'start', rule: 'value', index: 3 },
+				{ type: 'start', rule: 'list', index: 3 },
+				{ type: 'end', rule: 'list', index: 5 },
+				{ type: 'end', rule: 'value', index: 5 },
+				{ type: 'end', rule: 'statement', index: 6 }
+			]);
+		});
+
+		it('can start at any rule', () => {
+			const vm = compileGrammarVM(statementGrammar, terminals, { startRule: 'value' });
+			expect(vm.execute(['[', '1', ']']).success).toBe(true);
+			expect(() =>
+				compileGrammarVM(statementGrammar, terminals, { startRule: 'missing' })
+			).toThrow('Unknown start rule "missing"');
+		});
+
+		it('throws for terminals without a predicate', () => {
+			expect(() => compileGrammarVM('a = b c;', { b: equals('b') })).toThrow(
+				'No predicate for terminal "c", used in rule "a"'
+			);
+		});
+
+		it('checks grammars which were not parsed', () => {
+			expect(() =>
+				compileGrammarVM(
+					{ rules: [{ name: 'a', expression: { type: 'rule', name: 'b' } }] },
+					{}
+				)
+			).toThrow('Invalid grammar: Unknown rule "b"');
+		});
+	});
+
+	describe('compileGrammar()', () => {
+		it('appends the grammar to an existing program', () => {
+			const assembler = new Assembler<string>();
+			assembler.test(equals('('));
+			compileGrammar(assembler, 'list = NUMBER+;', terminals);
+			assembler.test(equals(')'));
+			assembler.accept();
+			const program = assembler.finalize();
+			expect(program[1].data).toEqual({ terminal: 'NUMBER', rules: ['list'] });
+		});
+	});
+});
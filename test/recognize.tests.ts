@@ -0,0 +1,121 @@
+import { Assembler, VM, default as whynot } from '../src/index';
+
+describe('recognize', () => {
+	function expectSameAsExecute<I, O>(vm: VM<I, O>, inputs: I[][], options?: O) {
+		inputs.forEach(input => {
+			expect(vm.recognize(input, options)).toBe(vm.execute(input, options).success);
+		});
+	}
+
+	it('accepts the same input as execute', () => {
+		// (ab|a)*c?
+		const vm = whynot.compileVM<string>(assembler => {
+			const loop = assembler.label();
+			const ab = assembler.label();
+			const a = assembler.label();
+			const optionalC = assembler.label();
+			const c = assembler.label();
+			const end = assembler.label();
+			assembler.bind(loop);
+			assembler.jump([ab, a, optionalC]);
+			assembler.bind(ab);
+			assembler.test(item => item === 'a');
+			assembler.test(item => item === 'b');
+			assembler.jump([loop]);
+			assembler.bind(a);
+			assembler.test(item => item === 'a');
+			assembler.jump([loop]);
+			assembler.bind(optionalC);
+			assembler.jump([c, end]);
+			assembler.bind(c);
+			assembler.test(item => item === 'c');
+			assembler.bind(end);
+			assembler.accept();
+		});
+		expectSameAsExecute(
+			vm,
+			['', 'a', 'ab', 'aab', 'abac', 'c', 'cc', 'b', 'abb', 'aaaaac', 'ca'].map(input =>
+				input.split('')
+			)
+		);
+	});
+
+	it('terminates for programs with empty loops', () => {
+		const vm = whynot.compileVM<string>(assembler => {
+			const loop = assembler.label();
+			const end = assembler.label();
+			assembler.bind(loop);
+			assembler.record('loop');
+			assembler.jump([loop, end]);
+			assembler.bind(end);
+			assembler.jump([loop]);
+		});
+		expect(vm.recognize([])).toBe(false);
+		expect(vm.recognize(['a'])).toBe(false);
+	});
+
+	it('supports conditional failure with options', () => {
+		type Options = { shouldFail: boolean };
+		const vm = whynot.compileVM<string, Options>(assembler => {
+			assembler.bad();
+			assembler.fail(options => !!options && options.shouldFail);
+			assembler.accept();
+		});
+		expectSameAsExecute(vm, [[], ['a']], { shouldFail: true });
+		expectSameAsExecute(vm, [[], ['a']], { shouldFail: false });
+	});
+
+	it('passes data and options to tests', () => {
+		const vm = whynot.compileVM<string, string>(assembler => {
+			assembler.test((item, data, options) => item === data + options, 'a');
+			assembler.accept();
+		});
+		expect(vm.recognize(['ab'], 'b')).toBe(true);
+		expect(vm.recognize(['ab'], 'c')).toBe(false);
+	});
+
+	it('accepts null and undefined items', () => {
+		const vm = whynot.compileVM<any>(assembler => {
+			assembler.test(item => item === null);
+			assembler.test(item => item === undefined);
+			assembler.accept();
+		});
+		expect(vm.recognize([null, undefined])).toBe(true);
+		expect(vm.recognize([null])).toBe(false);
+	});
+
+	it('does not invoke record callbacks', () => {
+		const record = jest.fn();
+		const vm = whynot.compileVM<string>(assembler => {
+			assembler.record(null, record);
+			assembler.accept();
+		});
+		expect(vm.recognize([])).toBe(true);
+		expect(record).not.toHaveBeenCalled();
+	});
+
+	it('closes iterators when it stops reading input early', () => {
+		const assembler = new Assembler<string>();
+		assembler.test(item => item === 'a');
+		assembler.accept();
+		let isClosed = false;
+		function* generateInput() {
+			try {
+				for (;;) {
+					yield 'a';
+				}
+			} finally {
+				isClosed = true;
+			}
+		}
+		expect(whynot.recognize(assembler.finalize(), generateInput())).toBe(false);
+		expect(isClosed).toBe(true);
+	});
+
+	it('can be used without a VM', () => {
+		const assembler = new Assembler<string>();
+		assembler.test(item => item === 'a');
+		assembler.accept();
+		expect(whynot.recognize(assembler.finalize(), ['a'])).toBe(true);
+	});
+});
@@ -0,0 +1,224 @@
+import { Assembler, compileRegex, compileRegexVM, parseRegex } from '../src/index';
+
+describe('regex', () => {
+	describe('parseRegex()', () => {
+		it('parses characters, sequences and choices', () => {
+			expect(parseRegex('a')).toEqual({ type: 'character', value: 'a' });
+			expect(parseRegex('ab|c')).toEqual({
+				type: 'choice',
+				alternatives: [
+					{
+						type: 'sequence',
+						items: [
+							{ type: 'character', value: 'a' },
+							{ type: 'character', value: 'b' }
+						]
+					},
+					{ type: 'character', value: 'c' }
+				]
+			});
+			expect(parseRegex('')).toEqual({ type: 'sequence', items: [] });
+		});
+
+		it('parses quantifiers', () => {
+			expect(parseRegex('a{2,}?')).toEqual({
+				type: 'repetition',
+				item: { type: 'character', value: 'a' },
+				min: 2,
+				max: null,
+				isGreedy: false
+			});
+			expect(parseRegex('(?:ab)?')).toEqual({
+				type: 'repetition',
+				item: {
+					type: 'sequence',
+					items: [
+						{ type: 'character', value: 'a' },
+						{ type: 'character', value: 'b' }
+					]
+				},
+				min: 0,
+				max: 1,
+				isGreedy: true
+			});
+		});
+
+		it('parses character classes', () => {
+			expect(parseRegex('[a-cx\\d]')).toEqual({
+				type: 'set',
+				ranges: [
+					{ from: 48, to: 57 },
+					{ from: 97, to: 99 },
+					{ from: 120, to: 120 }
+				],
+				description: '[a-cx\\d]'
+			});
+			expect(parseRegex('[^\\x00-b]')).toEqual({
+				type: 'set',
+				ranges: [{ from: 99, to: 0xffff }],
+				description: '[^\\x00-b]'
+			});
+		});
+
+		it('treats braces which do not form a quantifier as characters', () => {
+			expect(parseRegex('a{')).toEqual({
+				type: 'sequence',
+				items: [
+					{ type: 'character', value: 'a' },
+					{ type: 'character', value: '{' }
+				]
+			});
+		});
+
+		it('throws for invalid patterns', () => {
+			[
+				['(a', 'Unterminated group at position 2'],
+				['a)', 'Unmatched ")" at position 1'],
+				['*a', 'Nothing to repeat at position 0'],
+				['a**', 'Nothing to repeat at position 3'],
+				['{1}', 'Nothing to repeat at position 0'],
+				['a{2,1}', 'Numbers out of order in {} quantifier at position 1'],
+				['[a', 'Unterminated character class at position 2'],
+				['[b-a]', 'Range out of order in character class at position 4'],
+				['[a-\\d]', 'Invalid character class range at position 5'],
+				['a\\', '\\ at end of pattern at position 2'],
+				['\\1', 'Backreferences are not supported at position 2'],
+				['\\b', 'Word boundaries are not supported at position 2'],
+				['(?=a)', 'Lookaround assertions are not supported at position 1'],
+				['a^', '^ is only supported at the start of the pattern at position 1'],
+				['(^a)', '^ is only supported at the start of the pattern at position 1']
+			].forEach(([pattern, message]) => {
+				expect(() => parseRegex(pattern)).toThrow(
+					'Invalid regular expression /' + pattern + '/: ' + message
+				);
+			});
+		});
+	});
+
+	describe('compileRegexVM()', () => {
+		// Compare against the native implementation, anchored to match the complete input
+		function expectSameAsRegExp(pattern: string, inputs: string[]) {
+			const vm = compileRegexVM(pattern);
+			const regExp = new RegExp('^(?:' + pattern + ')$');
+			inputs.forEach(input => {
+				expect({ input, success: vm.execute(input.split('')).success }).toEqual({
+					input,
+					success: regExp.test(input)
+				});
+			});
+		}
+
+		it('matches characters, sequences, choices and groups', () => {
+			expectSameAsRegExp('ab(c|de)f', ['abcf', 'abdef', 'abf', 'abcdef', '']);
+			expectSameAsRegExp('a||b', ['a', '', 'b', 'ab']);
+		});
+
+		it('matches character classes and escapes', () => {
+			expectSameAsRegExp('[a-c][^a-c]\\d\\w\\s.', ['ad1_ x', 'ad1_\tx', 'aa1_ x', 'ad1_ \n']);
+			expectSameAsRegExp('\\.\\x41\\u0042\\n\\\\', ['.AB\n\\', 'xAB\n\\']);
+			expectSameAsRegExp('[\\D\\s-]', ['a', '1', ' ', '-']);
+		});
+
+		it('matches quantifiers', () => {
+			const inputs = ['', 'a', 'aa', 'aaa', 'aaaa', 'aaaaa', 'b'];
+			['a*', 'a+', 'a?', 'a{2}', 'a{2,}', 'a{2,4}', 'a{0,1}a', '(a|aa)+', '(a*)*'].forEach(
+				pattern => {
+					expectSameAsRegExp(pattern, inputs);
+					expectSameAsRegExp(pattern + '?', inputs);
+				}
+			);
+		});
+
+		it('matches anchors', () => {
+			expectSameAsRegExp('^ab$', ['ab', 'a', 'abb']);
+			expectSameAsRegExp('a$|ab', ['a', 'ab']);
+			const vm = compileRegexVM('b$');
+			expect(vm.searchAll('abab'.split('')).map(match => match.start)).toEqual([3]);
+			expect(compileRegexVM('a$b').execute(['a', 'b']).success).toBe(false);
+		});
+
+		it('only matches ^ at the start of the input when searching', () => {
+			const vm = compileRegexVM('^a');
+			expect(vm.searchAll('ba'.split(''))).toEqual([]);
+			expect(vm.searchAll('aa'.split('')).map(match => [match.start, match.end])).toEqual([
+				[0, 1]
+			]);
+		});
+
+		it('prefers as many or as few repetitions as the quantifiers ask for when searching', () => {
+			function find(pattern: string, input: string) {
+				const match = compileRegexVM(pattern).search(input.split(''));
+				return match && [match.start, match.end];
+			}
+			expect(find('a*', 'aaa')).toEqual([0, 3]);
+			expect(find('a*?', 'aaa')).toEqual([0, 0]);
+			expect(find('a+?', 'baaa')).toEqual([1, 2]);
+			expect(find('a{1,2}', 'baaa')).toEqual([1, 3]);
+			expect(find('a*?b', 'aab')).toEqual([0, 3]);
+		});
+
+		it('finds all matches of patterns starting with a loop', () => {
+			function findAll(pattern: string, input: string) {
+				return compileRegexVM(pattern)
+					.searchAll(input.split(''))
+					.map(match => [match.start, match.end]);
+			}
+			expect(findAll('a*b', 'xaab')).toEqual([
+				[1, 4],
+				[2, 4],
+				[3, 4]
+			]);
+			expect(findAll('(?:a*)b', 'aab')).toEqual([
+				[0, 3],
+				[1, 3],
+				[2, 3]
+			]);
+			expect(findAll('(a*)*', 'aaa')).toEqual([
+				[0, 0],
+				[0, 1],
+				[0, 2],
+				[0, 3],
+				[1, 1],
+				[1, 2],
+				[1, 3],
+				[2, 2],
+				[2, 3],
+				[3, 3]
+			]);
+		});
+
+		it('prefers fewer repetitions for non-greedy quantifiers', () => {
+			const vm = compileRegexVM('a*?a*');
+			const result = vm.execute(['a', 'a']);
+			expect(result.success).toBe(true);
+			const paths = result.getBestPaths(10);
+			expect(paths.map(path => path.badness)).toEqual([0, 1, 2]);
+		});
+
+		it('can record missing characters', () => {
+			const vm = compileRegexVM('(a|bc)d[ef]', { recordMissing: true });
+			const trace = vm.execute(['b', 'f']).acceptingTraces[0];
+			expect(Array.from(trace.paths()).map(path => path.records.join(''))).toEqual([
+				'bcd[ef]'
+			]);
+			const result = vm.execute(['a', 'd', 'e']);
+			expect(result.getBestPaths(1)[0].badness).toBe(0);
+		});
+	});
+
+	describe('compileRegex()', () => {
+		it('appends the pattern to an existing program', () => {
+			const assembler = new Assembler<string>();
+			assembler.test(item => item === '<');
+			compileRegex(assembler, parseRegex('[a-z]+'));
+			assembler.test(item => item === '>');
+			assembler.accept();
+			const program = assembler.finalize();
+			expect(program[1]).toEqual({
+				op: 'test',
+				func: expect.any(Function),
+				data: '[a-z]'
+			});
+		});
+	});
+});
@@ -0,0 +1,30 @@
+import { Assembler, Label } from '../../src/index';
+
+/**
+ * Compiles a highly ambiguous program, matching any sequence of positive numbers and recording all
+ * possible ways in which each could have been matched
+ *
+ * @param assembler The Assembler to compile the program with
+ * @param padding   Number of unreachable instructions to add to make the program larger
+ */
+export default function compileAmbiguous(assembler: Assembler<number>, padding: number = 0) {
+	const loop = assembler.label();
+	const end = assembler.label();
+	const branches: Label[] = [];
+	for (let i = 0; i < 10; ++i) {
+		branches.push(assembler.label());
+	}
+	assembler.bind(loop);
+	assembler.jump(branches.concat([end]));
+	branches.forEach((branch, i) => {
+		assembler.bind(branch);
+		assembler.record(i, (data, index) => ({ branch: data, index }));
+		assembler.test(item => item > 0);
+		assembler.jump([loop]);
+	});
+	assembler.bind(end);
+	assembler.accept();
+	for (let i = 0; i < padding; ++i) {
+		assembler.fail();
+	}
+}
@@ -0,0 +1,157 @@
+import Assembler from '../src/Assembler';
+import validateProgram, { formatDiagnostics } from '../src/validateProgram';
+
+describe('validateProgram', () => {
+	let assembler: Assembler<string>;
+	beforeEach(() => {
+		assembler = new Assembler<string>();
+	});
+
+	function truth() {
+		return true;
+	}
+
+	it('accepts a valid program', () => {
+		assembler.jump([1, 3]);
+		assembler.test(truth);
+		assembler.jump([0]);
+		assembler.accept();
+		expect(validateProgram(assembler.program)).toEqual([]);
+	});
+
+	it('reports unknown instructions', () => {
+		assembler.program.push({ op: 'meep' });
+		assembler.accept();
+		expect(validateProgram(assembler.program)).toContainEqual({
+			severity: 'error',
+			pc: 0,
+			message: 'Unknown instruction "meep"'
+		});
+	});
+
+	it('reports missing and invalid callbacks', () => {
+		assembler.program.push({ op: 'test', func: null });
+		assembler.program.push({ op: 'record', func: 'meep' as any });
+		assembler.accept();
+		expect(validateProgram(assembler.program)).toEqual([
+			{ severity: 'error', pc: 0, message: 'Missing callback for test instruction' },
+			{
+				severity: 'error',
+				pc: 1,
+				message: 'Callback for record instruction is not a function'
+			}
+		]);
+	});
+
+	it('reports jump targets outside the program', () => {
+		assembler.jump([1, 2, -1, 0.5]);
+		assembler.accept();
+		expect(validateProgram(assembler.program)).toEqual([
+			{ severity: 'error', pc: 0, message: 'Jump target 2 is outside the program' },
+			{ severity: 'error', pc: 0, message: 'Jump target -1 is outside the program' },
+			{ severity: 'error', pc: 0, message: 'Jump target 0.5 is outside the program' }
+		]);
+	});
+
+	it('reports jumps without an array of targets', () => {
+		assembler.program.push({ op: 'jump', func: null, data: 1 });
+		assembler.accept();
+		expect(validateProgram(assembler.program)).toContainEqual({
+			severity: 'error',
+			pc: 0,
+			message: 'Targets for jump instruction should be an array of program counters'
+		});
+	});
+
+	it('reports non-numeric costs', () => {
+		assembler.program.push({ op: 'bad', func: null, data: 'meep' });
+		assembler.accept();
+		expect(validateProgram(assembler.program)).toEqual([
+			{
+				severity: 'error',
+				pc: 0,
+				message: 'Cost for bad instruction should be a finite number'
+			}
+		]);
+	});
+
+	it('reports invalid lengths for testSequence and skip instructions', () => {
+		assembler.program.push({ op: 'testSequence', func: truth, data: null, length: 0 });
+		assembler.program.push({ op: 'skip', func: null, data: 'meep' });
+		assembler.accept();
+		expect(validateProgram(assembler.program)).toEqual([
+			{
+				severity: 'error',
+				pc: 0,
+				message: 'Length for testSequence instruction should be a positive integer'
+			},
+			{
+				severity: 'error',
+				pc: 1,
+				message: 'Count for skip instruction should be a positive integer'
+			}
+		]);
+	});
+
+	it('reports call instructions without a sub-program id', () => {
+		assembler.program.push({ op: 'call', func: truth, data: 1 });
+		assembler.accept();
+		expect(validateProgram(assembler.program)).toEqual([
+			{
+				severity: 'error',
+				pc: 0,
+				message: 'Sub-program id for call instruction should be a string'
+			}
+		]);
+	});
+
+	it('reports unreachable instructions', () => {
+		assembler.jump([3]);
+		assembler.test(truth);
+		assembler.fail();
+		assembler.accept();
+		expect(validateProgram(assembler.program)).toEqual([
+			{ severity: 'warning', pc: 1, message: 'Instruction is unreachable' },
+			{ severity: 'warning', pc: 2, message: 'Instruction is unreachable' }
+		]);
+	});
+
+	it('continues after conditional fail instructions', () => {
+		assembler.fail(() => false);
+		assembler.accept();
+		expect(validateProgram(assembler.program)).toEqual([]);
+	});
+
+	it('warns if no accept instruction can be reached', () => {
+		assembler.fail();
+		assembler.accept();
+		expect(validateProgram(assembler.program)).toEqual([
+			{ severity: 'warning', pc: 1, message: 'Instruction is unreachable' },
+			{
+				severity: 'warning',
+				pc: null,
+				message: 'No accept instruction can be reached, the program never matches'
+			}
+		]);
+	});
+
+	it('warns for empty programs', () => {
+		expect(validateProgram(assembler.program)).toEqual([
+			{
+				severity: 'warning',
+				pc: null,
+				message: 'No accept instruction can be reached, the program never matches'
+			}
+		]);
+	});
+
+	describe('formatDiagnostics()', () => {
+		it('formats one line per diagnostic', () => {
+			assembler.jump([2]);
+			expect(formatDiagnostics(validateProgram(assembler.program))).toBe(
+				'error at 0: Jump target 2 is outside the program\n' +
+					'warning: No accept instruction can be reached, the program never matches'
+			);
+		});
+	});
+});